@@ -0,0 +1,158 @@
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+import { AgentConfigSchema, ParsedAgentConfig, createConfiguredAgent } from "./configuredAgent";
+// Via the agents index so built-in agents are registered before config names are checked against them
+import { registerAgent, unregisterAgent, hasAgent } from "./index";
+import type { Agent } from "./types";
+
+/**
+ * Declarative agent configs
+ * - AGENTS_CONFIG_DIR (default: config/agents): every *.json / *.yaml / *.yml file is loaded
+ * - AGENTS_CONFIG: an extra single config file
+ * - A file holds one agent config, a list of them, or `{ agents: [...] }`
+ * - Files are validated with zod at boot (invalid config fails startup) and hot-reloaded on change
+ *   (invalid edits are logged and the previously loaded agents stay registered)
+ */
+const CONFIG_EXTENSIONS = new Set([".json", ".yaml", ".yml"]);
+const RELOAD_DEBOUNCE_MS = 200;
+
+// Agents registered from config files: name -> source file
+const configAgents = new Map<string, string>();
+
+export function getAgentConfigSources(): string[] {
+  return [process.env.AGENTS_CONFIG_DIR || "config/agents", process.env.AGENTS_CONFIG].filter(
+    (s): s is string => !!s
+  );
+}
+
+function listConfigFiles(sources: string[]): string[] {
+  const files: string[] = [];
+  for (const source of sources) {
+    if (!fs.existsSync(source)) continue;
+    if (fs.statSync(source).isDirectory()) {
+      for (const entry of fs.readdirSync(source).sort()) {
+        if (CONFIG_EXTENSIONS.has(path.extname(entry).toLowerCase())) {
+          files.push(path.join(source, entry));
+        }
+      }
+    } else {
+      files.push(source);
+    }
+  }
+  return files;
+}
+
+/**
+ * Parse and validate one config file.
+ */
+export function readAgentConfigFile(filePath: string): ParsedAgentConfig[] {
+  const text = fs.readFileSync(filePath, "utf8");
+  const ext = path.extname(filePath).toLowerCase();
+
+  let data: any;
+  try {
+    data = ext === ".yaml" || ext === ".yml" ? YAML.parse(text) : JSON.parse(text);
+  } catch (e) {
+    throw new Error(`${filePath}: ${e instanceof Error ? e.message : "invalid syntax"}`);
+  }
+
+  const entries: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.agents) ? data.agents : [data];
+  return entries.map((entry, index) => {
+    const parsed = AgentConfigSchema.safeParse(entry);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((i) => `${i.path.join(".") || "(root)"}: ${i.message}`).join("; ");
+      throw new Error(`${filePath} [agent ${index}]: ${issues}`);
+    }
+    return parsed.data;
+  });
+}
+
+/**
+ * Load every config file from the given sources and sync the registry:
+ * new agents are registered, changed ones replaced, and ones whose config disappeared unregistered.
+ * All files are validated before anything is registered. Returns the config agent names.
+ */
+export function loadAgentConfigs(sources: string[] = getAgentConfigSources()): string[] {
+  const loaded = new Map<string, { agent: Agent; file: string; routable: boolean }>();
+
+  for (const file of listConfigFiles(sources)) {
+    for (const config of readAgentConfigFile(file)) {
+      const key = config.name.toLowerCase();
+      const previous = loaded.get(key);
+      if (previous) {
+        throw new Error(`Agent '${config.name}' is defined in both ${previous.file} and ${file}`);
+      }
+      if (hasAgent(key) && !configAgents.has(key)) {
+        throw new Error(`${file}: agent '${config.name}' conflicts with an agent registered in code`);
+      }
+      loaded.set(key, { agent: createConfiguredAgent(config), file, routable: config.routable });
+    }
+  }
+
+  for (const name of Array.from(configAgents.keys())) {
+    if (!loaded.has(name)) {
+      unregisterAgent(name);
+      configAgents.delete(name);
+    }
+  }
+  for (const [key, { agent, file, routable }] of loaded) {
+    registerAgent(agent, { replace: true, routable });
+    configAgents.set(key, file);
+  }
+
+  return Array.from(loaded.values()).map(({ agent }) => agent.name);
+}
+
+// Closest existing directory above a path that does not exist (yet)
+function existingParent(target: string): string {
+  let dir = path.dirname(path.resolve(target));
+  while (!fs.existsSync(dir) && path.dirname(dir) !== dir) dir = path.dirname(dir);
+  return dir;
+}
+
+/**
+ * Watch config sources and reload on change (debounced).
+ * Sources that do not exist yet are picked up when they appear (their closest existing parent is watched).
+ */
+export function watchAgentConfigs(sources: string[] = getAgentConfigSources()): { close(): void } {
+  let timer: NodeJS.Timeout | null = null;
+  const reload = () => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      try {
+        const names = loadAgentConfigs(sources);
+        console.log(`🔄 [AGENT_CONFIG] Reloaded agents: ${names.join(", ") || "(none)"}`);
+      } catch (e) {
+        console.error("❌ [AGENT_CONFIG] Reload failed, keeping previous agents:", e instanceof Error ? e.message : e);
+      }
+    }, RELOAD_DEBOUNCE_MS);
+  };
+
+  const watchers = new Set<fs.FSWatcher>();
+  const watch = (source: string) => {
+    if (fs.existsSync(source)) {
+      watchers.add(fs.watch(source, reload));
+      return;
+    }
+    const parent = existingParent(source);
+    const waiting = fs.watch(parent, () => {
+      // Still missing, and no directory on the way to it appeared either
+      if (!fs.existsSync(source) && existingParent(source) === parent) return;
+      waiting.close();
+      watchers.delete(waiting);
+      watch(source);
+      if (fs.existsSync(source)) reload();
+    });
+    watchers.add(waiting);
+  };
+  sources.forEach(watch);
+
+  return {
+    close() {
+      if (timer) clearTimeout(timer);
+      watchers.forEach((w) => w.close());
+      watchers.clear();
+    },
+  };
+}
@@ -0,0 +1,123 @@
+import { z } from "zod";
+import { Agent, AgentRunInput, AgentRunResult, AgentStreamEvent } from "./types";
+import { DEFAULT_MODEL, getOutputText, conversationContext } from "../clients/openaiSdk";
+import { ToolParamsSchema, runWithTools, streamWithTools, toolLoopOptions } from "../tools/runLoop";
+import { hasTool } from "../tools";
+import { FileSearchOptionsSchema, fileSearchInclude, fileSearchTool, parseFileSearchOptions } from "../services/fileSearch";
+import { responseProvenance, withProvenance } from "../services/citations";
+
+// Declarative agent definition (code or JSON/YAML config files)
+export const AgentConfigSchema = z
+  .object({
+    name: z.string().regex(/^[a-z0-9_-]+$/i, "name must be alphanumeric (dashes/underscores allowed)"),
+    description: z.string().min(1),
+    instructions: z.string().optional(),
+    model: z.string().optional(),
+    temperature: z.number().min(0).max(2).optional(),
+    // Vector stores always searched by this agent; otherwise params.vectorStoreIds is used
+    vectorStoreIds: z.array(z.string()).default([]),
+    tools: z.array(z.enum(["file_search", "web_search_preview"])).default([]),
+    // Default file_search filters / maxNumResults / rankingOptions; request params override them
+    fileSearch: FileSearchOptionsSchema.optional(),
+    // Local function tools from the tool registry (src/tools), run by the agent loop
+    functions: z.array(z.string()).default([]),
+    maxToolIterations: z.number().int().min(1).max(20).optional(),
+    // JSON schema for structured output (Responses API text.format json_schema)
+    outputSchema: z.record(z.unknown()).optional(),
+    // Whether the supervisor may route to this agent
+    routable: z.boolean().default(true),
+  })
+  .strict()
+  .refine((c) => c.vectorStoreIds.length === 0 || c.tools.includes("file_search"), {
+    message: "vectorStoreIds requires the file_search tool",
+    path: ["vectorStoreIds"],
+  })
+  .refine((c) => !c.fileSearch || c.tools.includes("file_search"), {
+    message: "fileSearch options require the file_search tool",
+    path: ["fileSearch"],
+  });
+export type AgentConfig = z.input<typeof AgentConfigSchema>;
+export type ParsedAgentConfig = z.output<typeof AgentConfigSchema>;
+
+function withoutUndefined<T extends Record<string, unknown>>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+/**
+ * Build an Agent from a declarative config.
+ * - Text-only; uses conversation id for long context like the built-in agents.
+ * - `file_search` searches the bound vectorStoreIds, or params.vectorStoreIds when none are bound.
+ */
+export function createConfiguredAgent(input: AgentConfig): Agent {
+  const config = AgentConfigSchema.parse(input);
+  for (const fn of config.functions) {
+    if (!hasTool(fn)) throw new Error(`Agent '${config.name}' uses unknown function tool '${fn}'`);
+  }
+  const usesFileSearch = config.tools.includes("file_search");
+  const needsVectorStoreParam = usesFileSearch && config.vectorStoreIds.length === 0;
+
+  const buildRequest = ({ conversationId, previousResponseId, input, params }: AgentRunInput) => {
+    if (typeof input !== 'string') {
+      throw new Error(`Agent '${config.name}' only accepts string inputs. Audio inputs should be processed by supervisor agent first.`);
+    }
+
+    const vectorStoreIds = config.vectorStoreIds.length
+      ? config.vectorStoreIds
+      : ((params as any)?.vectorStoreIds as string[] | undefined);
+    if (usesFileSearch && (!vectorStoreIds || vectorStoreIds.length === 0)) {
+      throw new Error(`Agent '${config.name}' requires params.vectorStoreIds: string[]`);
+    }
+
+    const retrieval = { ...config.fileSearch, ...withoutUndefined(parseFileSearchOptions(params)) };
+    const tools = config.tools.map((tool) =>
+      tool === "file_search" ? fileSearchTool(vectorStoreIds!, retrieval) : { type: tool }
+    );
+
+    return {
+      model: config.model || DEFAULT_MODEL,
+      input,
+      ...(config.instructions ? { instructions: config.instructions } : {}),
+      ...(config.temperature !== undefined ? { temperature: config.temperature } : {}),
+      ...conversationContext(conversationId, previousResponseId),
+      ...(tools.length ? { tools: tools as any[] } : {}),
+      ...(usesFileSearch ? fileSearchInclude(retrieval) : {}),
+      ...(config.outputSchema
+        ? {
+            text: {
+              format: {
+                type: "json_schema" as const,
+                name: `${config.name.replace(/-/g, "_")}_output`,
+                schema: config.outputSchema,
+                strict: false,
+              },
+            },
+          }
+        : {}),
+    };
+  };
+
+  return {
+    name: config.name,
+    description: config.description,
+    capabilities: { inputTypes: ["text"], streaming: true, tools: [...config.tools, ...config.functions] },
+    paramsSchema: needsVectorStoreParam
+      ? z.object({ vectorStoreIds: z.array(z.string()).min(1) }).merge(FileSearchOptionsSchema).merge(ToolParamsSchema).passthrough()
+      : usesFileSearch
+        ? FileSearchOptionsSchema.merge(ToolParamsSchema).passthrough()
+        : ToolParamsSchema.passthrough(),
+    async run(args: AgentRunInput): Promise<AgentRunResult> {
+      const { response, toolRun } = await runWithTools(buildRequest(args), toolLoopOptions(config.name, args, { functions: config.functions, maxIterations: config.maxToolIterations }));
+
+      return {
+        conversationId: args.conversationId,
+        text: getOutputText(response),
+        raw: toolRun ? { ...response, toolRun } : response,
+        ...(usesFileSearch ? await responseProvenance(response) : {}),
+      };
+    },
+    async *stream(args: AgentRunInput): AsyncGenerator<AgentStreamEvent, void, unknown> {
+      const events = streamWithTools(buildRequest(args), toolLoopOptions(config.name, args, { functions: config.functions, maxIterations: config.maxToolIterations }));
+      yield* usesFileSearch ? withProvenance(events) : events;
+    },
+  };
+}
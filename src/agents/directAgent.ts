@@ -1,30 +1,40 @@
-import { Agent, AgentRunInput, AgentRunResult } from "./types";
-import { openai, DEFAULT_MODEL, getOutputText } from "../clients/openaiSdk";
+import { Agent, AgentRunInput, AgentRunResult, AgentStreamEvent } from "./types";
+import { DEFAULT_MODEL, getOutputText, conversationContext } from "../clients/openaiSdk";
+import { ToolParamsSchema, runWithTools, streamWithTools, toolLoopOptions } from "../tools/runLoop";
 
 /**
  * DirectAgent
  * - General-purpose assistant with long conversation context via `conversation` parameter.
- * - No tools; ideal for chit-chat or generic queries.
+ * - Ideal for chit-chat or generic queries; calls the function tools named in params.functions, if any.
  */
 export const directAgent: Agent = {
   name: "direct",
-  description: "General-purpose assistant without tools; uses long context via conversation id.",
-  async run({ conversationId, input }: AgentRunInput): Promise<AgentRunResult> {
-    // Ensure input is a string (supervisor agent should have processed audio inputs)
-    if (typeof input !== 'string') {
-      throw new Error('DirectAgent only accepts string inputs. Audio inputs should be processed by supervisor agent first.');
-    }
-
-    const resp = await openai.responses.create({
-      model: DEFAULT_MODEL,
-      input,
-      conversation: conversationId,
-    });
+  description: "General-purpose assistant; uses long context via conversation id and can call the function tools enabled in params.functions.",
+  capabilities: { inputTypes: ["text"], streaming: true, tools: ["function"] },
+  paramsSchema: ToolParamsSchema.passthrough(),
+  async run(args: AgentRunInput): Promise<AgentRunResult> {
+    const { response, toolRun } = await runWithTools(buildRequest(args), toolLoopOptions(directAgent.name, args));
 
     return {
-      conversationId,
-      text: getOutputText(resp),
-      raw: resp,
+      conversationId: args.conversationId,
+      text: getOutputText(response),
+      raw: toolRun ? { ...response, toolRun } : response,
     };
   },
+  async *stream(args: AgentRunInput): AsyncGenerator<AgentStreamEvent, void, unknown> {
+    yield* streamWithTools(buildRequest(args), toolLoopOptions(directAgent.name, args));
+  },
 };
+
+function buildRequest({ conversationId, previousResponseId, input }: AgentRunInput) {
+  // Ensure input is a string (supervisor agent should have processed audio inputs)
+  if (typeof input !== 'string') {
+    throw new Error('DirectAgent only accepts string inputs. Audio inputs should be processed by supervisor agent first.');
+  }
+
+  return {
+    model: DEFAULT_MODEL,
+    input,
+    ...conversationContext(conversationId, previousResponseId),
+  };
+}
@@ -0,0 +1,146 @@
+import { z } from "zod";
+import { DEFAULT_MODEL, conversationContext } from "../clients/openaiSdk";
+import { getAgent, listRoutableAgents } from "./registry";
+import { Citation, mergeCitations } from "../services/citations";
+
+/**
+ * Supervisor fan-out mode
+ * - Dispatches the query to several agents in parallel (params.mode = "fanout")
+ * - Each branch runs without the conversation so parallel turns do not interleave in it
+ * - A synthesis call (in the conversation) merges the branch answers with attributions
+ */
+// Only routable agents: the supervisor itself cannot be a branch, so fan-out never nests
+const isRoutable = (name: string) => listRoutableAgents().some((a) => a.name.toLowerCase() === name.toLowerCase());
+
+export const FanoutBranchSchema = z.object({
+  agent: z.string().refine(isRoutable, (name) => ({ message: `Unknown or non-routable agent: ${name}` })),
+  // Name used to attribute this branch in the synthesized answer (default: agent name)
+  label: z.string().optional(),
+  // Overrides the request's vectorStoreIds for this branch (e.g. rag over a different store set)
+  vectorStoreIds: z.array(z.string()).optional(),
+  // Extra params for this branch; mode and branches are dropped (see runBranches)
+  params: z.record(z.unknown()).optional(),
+});
+export type FanoutBranch = z.infer<typeof FanoutBranchSchema>;
+
+export const SupervisorModeSchema = z.enum(["route", "fanout"]).default("route");
+
+export type BranchResult = {
+  label: string;
+  agent: string;
+  ok: boolean;
+  durationMs: number;
+  text?: string;
+  responseId?: string;
+  citations?: Citation[];
+  error?: string;
+};
+
+/**
+ * Branches requested in params.branches, or by default every routable agent
+ * whose params schema accepts the request params.
+ */
+export function resolveBranches(params: Record<string, unknown> | undefined, vectorStoreIds?: string[]): Array<FanoutBranch & { label: string }> {
+  const requested = z.array(FanoutBranchSchema).optional().parse(params?.branches);
+  const branches: FanoutBranch[] =
+    requested && requested.length
+      ? requested
+      : listRoutableAgents()
+          .filter((a) => !a.paramsSchema || a.paramsSchema.safeParse({ ...params, vectorStoreIds }).success)
+          .map((a) => ({ agent: a.name }));
+
+  if (branches.length === 0) {
+    throw new Error("Fan-out has no agents to dispatch to");
+  }
+
+  const seen = new Map<string, number>();
+  return branches.map((b) => {
+    const base = b.label || b.agent;
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return { ...b, label: count > 1 ? `${base}#${count}` : base };
+  });
+}
+
+/**
+ * Run all branches in parallel; failures are captured per branch rather than thrown.
+ */
+export async function runBranches(
+  query: string,
+  branches: Array<FanoutBranch & { label: string }>,
+  params: Record<string, unknown> | undefined,
+  vectorStoreIds?: string[]
+): Promise<BranchResult[]> {
+  const { mode: _mode, branches: _branches, ...baseParams } = params || {};
+
+  return Promise.all(
+    branches.map(async (branch): Promise<BranchResult> => {
+      const started = Date.now();
+      try {
+        const agent = getAgent(branch.agent);
+        const { mode: _branchMode, branches: _nested, ...branchParams } = branch.params || {};
+        const result = await agent.run({
+          // Empty conversation id: branch turns stay out of the shared conversation
+          conversationId: "",
+          input: query,
+          params: { ...baseParams, ...branchParams, vectorStoreIds: branch.vectorStoreIds || vectorStoreIds },
+        });
+        return {
+          label: branch.label,
+          agent: branch.agent,
+          ok: true,
+          durationMs: Date.now() - started,
+          text: result.text,
+          responseId: result.raw?.id,
+          ...(result.citations?.length ? { citations: result.citations } : {}),
+        };
+      } catch (e) {
+        console.error(`❌ [FANOUT] Branch '${branch.label}' failed:`, e);
+        return {
+          label: branch.label,
+          agent: branch.agent,
+          ok: false,
+          durationMs: Date.now() - started,
+          error: e instanceof Error ? e.message : String(e),
+        };
+      }
+    })
+  );
+}
+
+/**
+ * Citations of all branches, numbered together and tagged with the branch label.
+ */
+export function branchCitations(results: BranchResult[]): Citation[] {
+  return mergeCitations(results.map((r) => ({ branch: r.label, citations: r.citations })));
+}
+
+/**
+ * Responses API request that synthesizes the branch answers into one attributed answer.
+ */
+export function synthesisRequest(
+  query: string,
+  results: BranchResult[],
+  conversationId: string,
+  previousResponseId?: string
+) {
+  const answered = results.filter((r) => r.ok);
+  if (answered.length === 0) {
+    throw new Error("All fan-out branches failed");
+  }
+
+  const instructions = [
+    "You combine answers from several specialist agents into a single answer to the user's question.",
+    "Attribute each point to the agent(s) it came from using their label in square brackets, e.g. [rag].",
+    "If agents disagree, say so and attribute each position. Do not invent information not present in the answers.",
+    "",
+    ...answered.map((r) => `### [${r.label}] (agent: ${r.agent})\n${r.text}`),
+  ].join("\n");
+
+  return {
+    model: DEFAULT_MODEL,
+    instructions,
+    input: query,
+    ...conversationContext(conversationId, previousResponseId),
+  };
+}
@@ -0,0 +1,12 @@
+import { directAgent } from "./directAgent";
+import { ragAgent } from "./ragAgent";
+import { supervisorAgent } from "./supervisorAgent";
+import { registerAgent } from "./registry";
+
+// Built-in agents; the supervisor itself is not a routing target
+registerAgent(directAgent);
+registerAgent(ragAgent);
+registerAgent(supervisorAgent, { routable: false });
+
+export * from "./registry";
+export { directAgent, ragAgent, supervisorAgent };
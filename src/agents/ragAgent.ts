@@ -1,44 +1,56 @@
-import { Agent, AgentRunInput, AgentRunResult } from "./types";
-import { openai, DEFAULT_MODEL, getOutputText } from "../clients/openaiSdk";
+import { z } from "zod";
+import { Agent, AgentRunInput, AgentRunResult, AgentStreamEvent } from "./types";
+import { DEFAULT_MODEL, getOutputText, conversationContext } from "../clients/openaiSdk";
+import { ToolParamsSchema, runWithTools, streamWithTools, toolLoopOptions } from "../tools/runLoop";
+import { FileSearchOptionsSchema, fileSearchInclude, fileSearchTool, parseFileSearchOptions } from "../services/fileSearch";
+import { responseProvenance, withProvenance } from "../services/citations";
 
 /**
  * RAGAgent
  * - Uses OpenAI Vector Stores via file_search tool.
  * - Expects params.vectorStoreIds: string[] with at least one vector store id.
+ * - Optional params.filters (attribute filter), params.maxNumResults, params.rankingOptions.
+ * - Results carry citations; params.includeChunks adds the retrieved chunks with scores.
  * - Uses conversation id to maintain long context.
  */
 export const ragAgent: Agent = {
   name: "rag",
   description: "Retrieval-augmented agent using OpenAI Vector Stores (file_search tool).",
-  async run({ conversationId, input, params }: AgentRunInput): Promise<AgentRunResult> {
-    // Ensure input is a string (supervisor agent should have processed audio inputs)
-    if (typeof input !== 'string') {
-      throw new Error('RAGAgent only accepts string inputs. Audio inputs should be processed by supervisor agent first.');
-    }
-
-    const vectorStoreIds = (params as any)?.vectorStoreIds as string[] | undefined;
-
-    if (!vectorStoreIds || vectorStoreIds.length === 0) {
-      throw new Error("RAG agent requires params.vectorStoreIds: string[]");
-    }
-
-    const resp = await openai.responses.create({
-      model: DEFAULT_MODEL,
-      input,
-      conversation: conversationId,
-      tools: [
-        {
-          type: "file_search",
-          vector_store_ids: vectorStoreIds,
-          // optionally you can pass filters / max_num_results here
-        } as any,
-      ],
-    });
+  capabilities: { inputTypes: ["text"], streaming: true, tools: ["file_search"] },
+  paramsSchema: z.object({ vectorStoreIds: z.array(z.string()).min(1) }).merge(FileSearchOptionsSchema).merge(ToolParamsSchema).passthrough(),
+  async run(args: AgentRunInput): Promise<AgentRunResult> {
+    const { response, toolRun } = await runWithTools(buildRequest(args), toolLoopOptions(ragAgent.name, args));
 
     return {
-      conversationId,
-      text: getOutputText(resp),
-      raw: resp,
+      conversationId: args.conversationId,
+      text: getOutputText(response),
+      raw: toolRun ? { ...response, toolRun } : response,
+      ...(await responseProvenance(response)),
     };
   },
+  async *stream(args: AgentRunInput): AsyncGenerator<AgentStreamEvent, void, unknown> {
+    yield* withProvenance(streamWithTools(buildRequest(args), toolLoopOptions(ragAgent.name, args)));
+  },
 };
+
+function buildRequest({ conversationId, previousResponseId, input, params }: AgentRunInput) {
+  // Ensure input is a string (supervisor agent should have processed audio inputs)
+  if (typeof input !== 'string') {
+    throw new Error('RAGAgent only accepts string inputs. Audio inputs should be processed by supervisor agent first.');
+  }
+
+  const vectorStoreIds = (params as any)?.vectorStoreIds as string[] | undefined;
+
+  if (!vectorStoreIds || vectorStoreIds.length === 0) {
+    throw new Error("RAG agent requires params.vectorStoreIds: string[]");
+  }
+
+  const retrieval = parseFileSearchOptions(params);
+  return {
+    model: DEFAULT_MODEL,
+    input,
+    ...conversationContext(conversationId, previousResponseId),
+    tools: [fileSearchTool(vectorStoreIds, retrieval) as any],
+    ...fileSearchInclude(retrieval),
+  };
+}
@@ -1,23 +1,73 @@
-import { directAgent } from "./directAgent";
-import { ragAgent } from "./ragAgent";
-import { supervisorAgent } from "./supervisorAgent";
-import type { Agent } from "./types";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import type { Agent, AgentCapabilities } from "./types";
 
-export const agents = {
-  direct: directAgent,
-  rag: ragAgent,
-  supervisor: supervisorAgent,
-} as const;
+/**
+ * Runtime agent registry
+ * - Built-in agents (direct, rag, supervisor) are registered by agents/index.ts.
+ * - More agents can be registered at startup from code or from config files (see configLoader.ts).
+ * - Routable agents are the candidates the supervisor may route to.
+ */
+type Registration = {
+  agent: Agent;
+  routable: boolean;
+};
 
-export type AgentName = keyof typeof agents;
+const agents = new Map<string, Registration>();
 
-export function getAgent(name: AgentName): Agent {
-  return agents[name];
+export type AgentInfo = {
+  name: string;
+  description: string;
+  routable: boolean;
+  capabilities: AgentCapabilities;
+  paramsSchema: unknown;
+};
+
+export type RegisterOptions = {
+  // Replace an agent already registered under the same name
+  replace?: boolean;
+  // Whether the supervisor may route to this agent (default true)
+  routable?: boolean;
+};
+
+export function registerAgent(agent: Agent, { replace = false, routable = true }: RegisterOptions = {}): void {
+  const key = agent.name.toLowerCase();
+  if (agents.has(key) && !replace) {
+    throw new Error(`Agent already registered: ${agent.name}`);
+  }
+  agents.set(key, { agent, routable });
+}
+
+export function unregisterAgent(name: string): boolean {
+  return agents.delete(name.toLowerCase());
+}
+
+export function hasAgent(name: string): boolean {
+  return agents.has(name.toLowerCase());
+}
+
+export function getAgent(name: string): Agent {
+  const registration = agents.get(name.toLowerCase());
+  if (!registration) {
+    throw new Error(`Unknown agent: ${name}`);
+  }
+  return registration.agent;
+}
+
+/**
+ * Agents the supervisor may route to, in registration order.
+ */
+export function listRoutableAgents(): Agent[] {
+  return Array.from(agents.values())
+    .filter((r) => r.routable)
+    .map((r) => r.agent);
 }
 
-export function listAgents(): { name: AgentName; description: string }[] {
-  return (Object.keys(agents) as AgentName[]).map((name) => ({
-    name,
-    description: agents[name].description,
+export function listAgents(): AgentInfo[] {
+  return Array.from(agents.values()).map(({ agent, routable }) => ({
+    name: agent.name,
+    description: agent.description,
+    routable,
+    capabilities: agent.capabilities || { inputTypes: ["text"], streaming: true, tools: [] },
+    paramsSchema: agent.paramsSchema ? zodToJsonSchema(agent.paramsSchema as any) : { type: "object" },
   }));
 }
@@ -1,7 +1,15 @@
-import { Agent, AgentRunInput, AgentRunResult, SupervisorDecisionSchema, SupervisorDecision, AudioInput, BatchAudioInput } from "./types";
-import { openai, DEFAULT_MODEL, getOutputText, createConversation } from "../clients/openaiSdk";
+import { z } from "zod";
+import { Agent, AgentRunInput, AgentRunResult, AgentStreamEvent, SupervisorDecision, supervisorDecisionSchemaFor, AudioInput, BatchAudioInput } from "./types";
+import { zodTextFormat } from "openai/helpers/zod";
+import { openai, DEFAULT_MODEL, getOutputText } from "../clients/openaiSdk";
 import { directAgent } from "./directAgent";
 import { ragAgent } from "./ragAgent";
+import { getAgent, listRoutableAgents } from "./registry";
+import { FanoutBranchSchema, SupervisorModeSchema, branchCitations, resolveBranches, runBranches, synthesisRequest } from "./fanout";
+import { mapResponsesEvents } from "../services/responsesStream";
+import { FileSearchOptionsSchema } from "../services/fileSearch";
+import { ToolParamsSchema } from "../tools/runLoop";
+import type { Citation } from "../services/citations";
 import { RealtimeAudioService } from "../services/realtimeAudioService";
 
 /**
@@ -9,91 +17,66 @@ import { RealtimeAudioService } from "../services/realtimeAudioService";
  * - Handles text, audio, and batch audio inputs
  * - Uses GPT-4.1 with new Responses API for audio transcription
  * - Routes queries to sub-agents (direct, rag, etc.) using LLM reasoning
+ * - Optional fan-out mode (params.mode = "fanout") dispatches to several agents and synthesizes one answer
  * - Maintains long conversation context
  * - Supports batch audio processing for multiple audio chunks
  */
 export const supervisorAgent: Agent = {
   name: "supervisor",
   description: "Enhanced supervisor agent that routes text, audio, and batch audio queries to sub-agents using LLM reasoning with long conversation context and GPT-4.1 audio transcription.",
-  async run({ conversationId, input, params }: AgentRunInput): Promise<AgentRunResult> {
+  capabilities: { inputTypes: ["text", "audio", "batch_audio"], streaming: true, tools: ["file_search"] },
+  paramsSchema: z
+    .object({
+      vectorStoreIds: z.array(z.string()).optional(),
+      // "route" (default) picks one sub-agent; "fanout" dispatches to several and synthesizes
+      mode: SupervisorModeSchema,
+      branches: z.array(FanoutBranchSchema).optional(),
+    })
+    // Passed on to the chosen sub-agents
+    .merge(FileSearchOptionsSchema)
+    .merge(ToolParamsSchema)
+    .passthrough(),
+  async run({ conversationId, previousResponseId, input, params }: AgentRunInput): Promise<AgentRunResult> {
     const vectorStoreIds = (params as any)?.vectorStoreIds as string[] | undefined;
-    let processedInput: string;
-    let audioTranscriptionMetadata: any = {};
-
-    // Handle different input types
-    if (typeof input === 'string') {
-      processedInput = input;
-    } else if (input.type === 'audio') {
-      // Handle single audio input
-      processedInput = await processAudioInput(input, conversationId, vectorStoreIds);
-      audioTranscriptionMetadata = {
-        audioProcessed: true,
-        audioType: 'single',
-        mimeType: input.mimeType,
-        metadata: input.metadata
-      };
-    } else if (input.type === 'batch_audio') {
-      // Handle batch audio input
-      processedInput = await processBatchAudioInput(input, conversationId, vectorStoreIds);
-      audioTranscriptionMetadata = {
-        audioProcessed: true,
-        audioType: 'batch',
-        chunksCount: input.audioChunks.length,
-        processingMode: input.batchMetadata?.processingMode || 'sequential',
-        totalDuration: input.batchMetadata?.totalDuration
-      };
-    } else {
-      throw new Error(`Unsupported input type: ${typeof input}`);
-    }
+    const mode = SupervisorModeSchema.parse((params as any)?.mode);
+    const { processedInput, audioTranscriptionMetadata } = await prepareInput(input, conversationId, vectorStoreIds);
+    const inputMetadata = {
+      audioTranscription: audioTranscriptionMetadata,
+      originalInputType: typeof input === 'string' ? 'text' : input.type,
+      ...(typeof input !== 'string' ? { transcript: processedInput } : {})
+    };
 
-    // Make routing decision using the processed text input
-    const system = [
-      "You are a router that decides how to handle user input.",
-      "If the user asks to use uploaded files or knowledge base, or if vector store ids are provided, choose 'rag'.",
-      "Otherwise choose 'direct'.",
-      "Return ONLY a compact JSON object with fields: {\"route\":\"direct\"|\"rag\",\"query\":\"...\"}.",
-      "Do not add explanations."
-    ].join(" ");
-
-    const routingPrompt = [
-      system,
-      `User Input: ${processedInput}`,
-      vectorStoreIds?.length ? `Vector Stores Provided: ${vectorStoreIds.join(",")}` : "Vector Stores Provided: none",
-      "Output JSON now."
-    ].join("\n");
-
-    // Use a temporary conversation for routing to avoid polluting the main conversation context
-    const routingConvId = await createConversation();
-    const resp = await openai.responses.create({
-      model: DEFAULT_MODEL,
-      input: routingPrompt,
-      conversation: routingConvId,
-    });
+    if (mode === "fanout") {
+      const branches = await runBranches(processedInput, resolveBranches(params, vectorStoreIds), params, vectorStoreIds);
+      const started = Date.now();
+      const resp = await openai.responses.create(synthesisRequest(processedInput, branches, conversationId, previousResponseId));
 
-    let decision: SupervisorDecision = { route: vectorStoreIds?.length ? "rag" : "direct", query: processedInput };
-    try {
-      const text = getOutputText(resp);
-      const parsed = JSON.parse(text);
-      decision = SupervisorDecisionSchema.parse(parsed);
-    } catch {
-      // Fallback to heuristic above
+      return {
+        conversationId,
+        text: getOutputText(resp),
+        citations: branchCitations(branches),
+        raw: {
+          ...resp,
+          supervisorMetadata: {
+            mode,
+            branches,
+            synthesis: { durationMs: Date.now() - started, responseId: resp.id },
+            ...inputMetadata
+          }
+        }
+      };
     }
 
+    const { decision, diagnostics } = await decideRoute(processedInput, vectorStoreIds);
+
     // Route to appropriate agent with transcribed text
-    let result: AgentRunResult;
-    if (decision.route === "rag") {
-      result = await ragAgent.run({
-        conversationId,
-        input: decision.query,
-        params: { vectorStoreIds },
-      });
-    } else {
-      result = await directAgent.run({
-        conversationId,
-        input: decision.query,
-        params,
-      });
-    }
+    const { agent, agentParams } = resolveRoute(decision, params, vectorStoreIds);
+    const result = await agent.run({
+      conversationId,
+      previousResponseId,
+      input: decision.query,
+      params: agentParams,
+    });
 
     // Enhance result with audio processing metadata
     return {
@@ -101,15 +84,218 @@ export const supervisorAgent: Agent = {
       raw: {
         ...result.raw,
         supervisorMetadata: {
+          mode,
           routingDecision: decision,
-          audioTranscription: audioTranscriptionMetadata,
-          originalInputType: typeof input === 'string' ? 'text' : input.type
+          routing: diagnostics,
+          ...inputMetadata
         }
       }
     };
   },
+  async *stream({ conversationId, previousResponseId, input, params }: AgentRunInput): AsyncGenerator<AgentStreamEvent, void, unknown> {
+    const vectorStoreIds = (params as any)?.vectorStoreIds as string[] | undefined;
+    const mode = SupervisorModeSchema.parse((params as any)?.mode);
+    const { processedInput, audioTranscriptionMetadata } = await prepareInput(input, conversationId, vectorStoreIds);
+    if (typeof input !== 'string') {
+      yield { type: "transcript", data: { text: processedInput } };
+    }
+    const inputMetadata = {
+      audioTranscription: audioTranscriptionMetadata,
+      originalInputType: typeof input === 'string' ? 'text' : input.type,
+      ...(typeof input !== 'string' ? { transcript: processedInput } : {})
+    };
+
+    let events: AsyncIterable<AgentStreamEvent>;
+    let supervisorMetadata: Record<string, unknown>;
+    // Fan-out answers cite the branch sources; routed answers carry the sub-agent's own citations
+    let citations: Citation[] | undefined;
+    if (mode === "fanout") {
+      const plan = resolveBranches(params, vectorStoreIds);
+      yield { type: "fanout", data: { branches: plan.map(({ label, agent }) => ({ label, agent })) } };
+
+      const branches = await runBranches(processedInput, plan, params, vectorStoreIds);
+      for (const branch of branches) {
+        yield { type: "branch", data: branch };
+      }
+
+      events = mapResponsesEvents(
+        await openai.responses.create({
+          ...synthesisRequest(processedInput, branches, conversationId, previousResponseId),
+          stream: true,
+        })
+      );
+      supervisorMetadata = { mode, branches, ...inputMetadata };
+      citations = branchCitations(branches);
+    } else {
+      const { decision, diagnostics } = await decideRoute(processedInput, vectorStoreIds);
+      yield { type: "routing", data: decision };
+
+      const { agent, agentParams } = resolveRoute(decision, params, vectorStoreIds);
+      events = agent.stream({
+        conversationId,
+        previousResponseId,
+        input: decision.query,
+        params: agentParams,
+      });
+      supervisorMetadata = { mode, routingDecision: decision, routing: diagnostics, ...inputMetadata };
+    }
+
+    for await (const event of events) {
+      if (event.type === "final") {
+        yield {
+          type: "final",
+          data: {
+            ...event.data,
+            ...(citations ? { citations } : {}),
+            raw: { ...event.data.raw, supervisorMetadata }
+          }
+        };
+      } else {
+        yield event;
+      }
+    }
+  },
 };
 
+/**
+ * Turn text, audio or batch audio input into the text used for routing
+ */
+async function prepareInput(
+  input: AgentRunInput["input"],
+  conversationId: string,
+  vectorStoreIds?: string[]
+): Promise<{ processedInput: string; audioTranscriptionMetadata: any }> {
+  // Handle different input types
+  if (typeof input === 'string') {
+    return { processedInput: input, audioTranscriptionMetadata: {} };
+  } else if (input.type === 'audio') {
+    // Handle single audio input
+    return {
+      processedInput: await processAudioInput(input, conversationId, vectorStoreIds),
+      audioTranscriptionMetadata: {
+        audioProcessed: true,
+        audioType: 'single',
+        mimeType: input.mimeType,
+        metadata: input.metadata
+      }
+    };
+  } else if (input.type === 'batch_audio') {
+    // Handle batch audio input
+    return {
+      processedInput: await processBatchAudioInput(input, conversationId, vectorStoreIds),
+      audioTranscriptionMetadata: {
+        audioProcessed: true,
+        audioType: 'batch',
+        chunksCount: input.audioChunks.length,
+        processingMode: input.batchMetadata?.processingMode || 'sequential',
+        totalDuration: input.batchMetadata?.totalDuration
+      }
+    };
+  }
+  throw new Error(`Unsupported input type: ${typeof input}`);
+}
+
+// Routing call details surfaced in raw.supervisorMetadata.routing
+type RoutingDiagnostics = {
+  candidates: string[];
+  fallbackUsed: boolean;
+  responseId?: string;
+  rawText?: string;
+  parseError?: string;
+  requestError?: string;
+};
+
+/**
+ * Make routing decision using the processed text input.
+ * - The prompt is built from the routable agents' names and descriptions.
+ * - Uses Responses API structured outputs (json_schema derived from SupervisorDecisionSchema)
+ *   as a one-off, unstored call so no conversation is created just to route.
+ * - Request, parse or validation failures fall back deterministically (see fallbackRoute)
+ *   and are reported in the diagnostics.
+ */
+async function decideRoute(
+  processedInput: string,
+  vectorStoreIds?: string[]
+): Promise<{ decision: SupervisorDecision; diagnostics: RoutingDiagnostics }> {
+  const candidates = listRoutableAgents();
+  if (candidates.length === 0) {
+    throw new Error("Supervisor has no routable agents registered");
+  }
+  const routes = candidates.map((a) => a.name) as [string, ...string[]];
+  const retrievalRoutes = candidates.filter((a) => a.capabilities?.tools.includes("file_search")).map((a) => a.name);
+
+  const instructions = [
+    "You are a router that decides which agent should handle user input.",
+    "Available agents:",
+    ...candidates.map((a) => `- ${a.name}: ${a.description}`),
+    ...(retrievalRoutes.length
+      ? [`If the user asks to use uploaded files or knowledge base, or if vector store ids are provided, prefer one of: ${retrievalRoutes.join(", ")}.`]
+      : []),
+    "Pick the single best agent for the request, rephrase the query for it, and give your confidence (0-1) and a short reason."
+  ].join("\n");
+
+  const routingInput = [
+    `User Input: ${processedInput}`,
+    vectorStoreIds?.length ? `Vector Stores Provided: ${vectorStoreIds.join(",")}` : "Vector Stores Provided: none"
+  ].join("\n");
+
+  const schema = supervisorDecisionSchemaFor(routes);
+  const diagnostics: RoutingDiagnostics = { candidates: routes, fallbackUsed: false };
+  const fallback = (): SupervisorDecision => {
+    diagnostics.fallbackUsed = true;
+    return {
+      route: fallbackRoute(routes, vectorStoreIds),
+      query: processedInput,
+      confidence: 0,
+      reason: "fallback: routing failed",
+    };
+  };
+
+  let resp: any;
+  try {
+    resp = await openai.responses.create({
+      model: DEFAULT_MODEL,
+      instructions,
+      input: routingInput,
+      store: false,
+      text: { format: zodTextFormat(schema, "routing_decision") },
+    });
+  } catch (e) {
+    diagnostics.requestError = e instanceof Error ? e.message : String(e);
+    console.error("❌ [SUPERVISOR] Routing request failed:", diagnostics.requestError);
+    return { decision: fallback(), diagnostics };
+  }
+
+  diagnostics.responseId = resp.id;
+  diagnostics.rawText = getOutputText(resp);
+  try {
+    const decision = schema.parse(JSON.parse(diagnostics.rawText));
+    return { decision, diagnostics };
+  } catch (e) {
+    diagnostics.parseError = e instanceof Error ? e.message : String(e);
+    console.warn("⚠️ [SUPERVISOR] Routing output rejected, using fallback:", diagnostics.parseError);
+    return { decision: fallback(), diagnostics };
+  }
+}
+
+/**
+ * Deterministic fallback: rag when vector stores are provided, else direct,
+ * else the first routable agent in registration order.
+ */
+function fallbackRoute(routes: string[], vectorStoreIds?: string[]): string {
+  if (vectorStoreIds?.length && routes.includes(ragAgent.name)) return ragAgent.name;
+  if (routes.includes(directAgent.name)) return directAgent.name;
+  return routes[0];
+}
+
+function resolveRoute(
+  decision: SupervisorDecision,
+  params: AgentRunInput["params"],
+  vectorStoreIds?: string[]
+): { agent: Agent; agentParams: AgentRunInput["params"] } {
+  return { agent: getAgent(decision.route), agentParams: { ...params, vectorStoreIds } };
+}
+
 /**
  * Process single audio input using GPT-4.1 and new Responses API
  */
@@ -1,7 +1,11 @@
 import { z } from "zod";
+import type { StreamEvent } from "../services/responsesStream";
+import type { Citation, RetrievedChunk } from "../services/citations";
 
 export type AgentRunInput = {
   conversationId: string;
+  // Used to chain turns via previous_response_id when no conversation id is available
+  previousResponseId?: string;
   input: string | AudioInput | BatchAudioInput;
   // Optional contextual parameters agents may use
   params?: Record<string, unknown>;
@@ -41,18 +45,56 @@ export type AgentRunResult = {
   conversationId: string;
   text: string;
   raw: any;
+  // file_citation annotations of the answer (see services/citations.ts)
+  citations?: Citation[];
+  // Retrieved chunks with scores, when requested with params.includeChunks
+  chunks?: RetrievedChunk[];
+};
+
+// Events yielded by Agent.stream (forwarded as SSE events by routes/agents.ts)
+export type AgentStreamEvent =
+  | { type: "transcript"; data: { text: string } }
+  | { type: "routing"; data: SupervisorDecision }
+  | { type: "fanout"; data: { branches: Array<{ label: string; agent: string }> } }
+  | { type: "branch"; data: { label: string; agent: string; ok: boolean; durationMs: number; text?: string; error?: string } }
+  | StreamEvent;
+
+// What an agent accepts and uses; surfaced by GET /agents
+export type AgentCapabilities = {
+  inputTypes: Array<'text' | 'audio' | 'batch_audio'>;
+  streaming: boolean;
+  tools: string[];
 };
 
 export interface Agent {
   readonly name: string;
   readonly description: string;
+  readonly capabilities?: AgentCapabilities;
+  // Schema for AgentRunInput.params; validated by POST /agents/:name
+  readonly paramsSchema?: z.ZodTypeAny;
   run(args: AgentRunInput): Promise<AgentRunResult>;
+  stream(args: AgentRunInput): AsyncGenerator<AgentStreamEvent, void, unknown>;
 }
 
-// Simple schema for supervisor routing decision
+// Schema for supervisor routing decision
 export const SupervisorDecisionSchema = z.object({
-  route: z.enum(["direct", "rag"]),
+  // Name of a routable agent (see supervisorDecisionSchemaFor for the validated set)
+  route: z.string(),
   // The rephrased or extracted query to pass to the chosen agent
   query: z.string(),
+  // Router's confidence in the route, 0..1
+  confidence: z.number().min(0).max(1).optional(),
+  // Short justification for the route
+  reason: z.string().optional(),
 });
 export type SupervisorDecision = z.infer<typeof SupervisorDecisionSchema>;
+
+// Decision schema restricted to the currently routable agent names.
+// Every field is required so it can be used as a strict structured-output schema.
+export function supervisorDecisionSchemaFor(routes: [string, ...string[]]) {
+  return SupervisorDecisionSchema.extend({
+    route: z.enum(routes),
+    confidence: z.number().min(0).max(1),
+    reason: z.string(),
+  });
+}
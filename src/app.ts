@@ -0,0 +1,49 @@
+import express from "express";
+import vectorStoreRoutes from "./routes/vectorStores";
+import chatRoutes from "./routes/chat";
+import fileRoutes from "./routes/files";
+import agentsRoutes from "./routes/agents";
+import realtimeRoutes from "./routes/realtime";
+import conversationRoutes from "./routes/conversations";
+
+/**
+ * Express app with every route mounted; src/index.ts loads the agent configs and listens.
+ * Tests create it in-process against the mock OpenAI (src/mock/openaiMock.ts).
+ */
+export function createApp(): express.Express {
+  const app = express();
+
+  // Add logging middleware for audio debugging
+  app.use((req, res, next) => {
+    const timestamp = new Date().toISOString();
+    console.log(`🌐 [SERVER] ${timestamp} - ${req.method} ${req.path}`);
+    
+    // Log audio-related requests with more detail
+    if (req.path.includes('/agents') && req.method === 'POST') {
+      console.log('🎤 [SERVER] Audio-capable endpoint accessed');
+      console.log('📊 [SERVER] Content-Type:', req.get('Content-Type'));
+      console.log('📊 [SERVER] Content-Length:', req.get('Content-Length'));
+    }
+    
+    next();
+  });
+
+  // Larger than the 100kb default so conversation imports fit
+  app.use(express.json({ limit: process.env.JSON_BODY_LIMIT || "2mb" }));
+
+  // Static frontend
+  app.use(express.static("public"));
+
+  // Routes
+  app.use("/vector-stores", vectorStoreRoutes);
+  app.use("/vector-stores", fileRoutes); // nested under /vector-stores/:id/files
+  app.use("/chat", chatRoutes);
+  app.use("/agents", agentsRoutes);
+  app.use("/conversations", conversationRoutes);
+  app.use("/api", realtimeRoutes); // realtime session management
+
+  // Health
+  app.get("/healthz", (_, res) => res.json({ status: "ok" }));
+
+  return app;
+}
@@ -1,5 +1,8 @@
 import axios, { AxiosInstance } from "axios";
+import FormData from "form-data";
+import fs from "fs";
 import dotenv from "dotenv";
+import { OPENAI_BASE_URL } from "./config";
 dotenv.config();
 
 /**
@@ -14,7 +17,6 @@ dotenv.config();
 
 const {
   OPENAI_API_KEY,
-  OPENAI_API_BASE_URL,
   OPENAI_MODEL,
 } = process.env;
 
@@ -22,7 +24,7 @@ if (!OPENAI_API_KEY) {
   throw new Error("OPENAI_API_KEY must be set in environment variables");
 }
 
-const BASE_URL = OPENAI_API_BASE_URL || "https://api.openai.com/v1";
+const BASE_URL = OPENAI_BASE_URL;
 const DEFAULT_MODEL = OPENAI_MODEL || "gpt-4.1";
 
 /**
@@ -36,35 +38,325 @@ const openai: AxiosInstance = axios.create({
   },
 });
 
+// URL path with each interpolated id encoded (ids come from request params)
+function apiPath(strings: TemplateStringsArray, ...ids: string[]): string {
+  return strings.reduce((path, part, i) => path + encodeURIComponent(ids[i - 1]) + part);
+}
+
+// ------------------------------------------------------------
+// Errors
+// ------------------------------------------------------------
+/**
+ * Upstream OpenAI failure mapped to the status this API should answer with:
+ * - request errors (400/404/409/413/415/422/429) keep their status
+ * - auth errors (401/403) and upstream 5xx/network failures become 502 (our configuration or their outage)
+ * - anything that is not an HTTP error becomes 500
+ */
+export class OpenAIApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public upstreamStatus?: number,
+    public type?: string,
+    public code?: string
+  ) {
+    super(message);
+    this.name = "OpenAIApiError";
+  }
+}
+
+const PASSTHROUGH_STATUSES = new Set([400, 404, 409, 413, 415, 422, 429]);
+
+export function toOpenAIApiError(err: unknown): OpenAIApiError {
+  if (err instanceof OpenAIApiError) return err;
+  if (axios.isAxiosError(err)) {
+    const upstreamStatus = err.response?.status;
+    const body: any = err.response?.data;
+    const message = body?.error?.message || err.message;
+    const status = upstreamStatus && PASSTHROUGH_STATUSES.has(upstreamStatus) ? upstreamStatus : 502;
+    return new OpenAIApiError(message, status, upstreamStatus, body?.error?.type, body?.error?.code ?? undefined);
+  }
+  return new OpenAIApiError(err instanceof Error ? err.message : String(err), 500);
+}
+
 // ------------------------------------------------------------
 // Vector Store helpers
 // ------------------------------------------------------------
-export async function createVectorStore(name: string) {
-  const res = await openai.post("/vector_stores", { name });
+export type ListParams = {
+  after?: string;
+  before?: string;
+  limit?: number;
+  order?: "asc" | "desc";
+};
+
+export interface ListPage<T> {
+  object: "list";
+  data: T[];
+  first_id: string | null;
+  last_id: string | null;
+  has_more: boolean;
+}
+
+export type VectorStoreExpiresAfter = {
+  anchor: "last_active_at";
+  days: number;
+};
+
+export interface VectorStore {
+  id: string;
+  object: "vector_store";
+  created_at: number;
+  name: string | null;
+  status: "expired" | "in_progress" | "completed";
+  usage_bytes: number;
+  file_counts: { in_progress: number; completed: number; failed: number; cancelled: number; total: number };
+  metadata: Record<string, string> | null;
+  expires_after?: VectorStoreExpiresAfter | null;
+  expires_at?: number | null;
+  last_active_at?: number | null;
+}
+
+export type VectorStoreUpdate = {
+  name?: string | null;
+  metadata?: Record<string, string> | null;
+  expires_after?: VectorStoreExpiresAfter | null;
+};
+
+export interface VectorStoreFile {
+  id: string;
+  object: "vector_store.file";
+  created_at: number;
+  vector_store_id: string;
+  status: "in_progress" | "completed" | "cancelled" | "failed";
+  usage_bytes: number;
+  last_error: { code: string; message: string } | null;
+  attributes?: VectorStoreFileAttributes | null;
+  // Strategy the file was chunked with ("other" for files chunked before strategies existed)
+  chunking_strategy?: StaticChunkingStrategy | { type: "other" };
+}
+
+// Filterable key/value pairs stored on a vector store file (max 16 keys)
+export type VectorStoreFileAttributes = Record<string, string | number | boolean>;
+
+// How files are split when attached; "auto" is currently 800 tokens with 400 overlap
+export type StaticChunkingStrategy = {
+  type: "static";
+  static: { max_chunk_size_tokens: number; chunk_overlap_tokens: number };
+};
+export type ChunkingStrategy = { type: "auto" } | StaticChunkingStrategy;
+
+export async function createVectorStore(
+  name: string,
+  { metadata }: { metadata?: Record<string, string> } = {}
+): Promise<VectorStore> {
+  const res = await openai.post("/vector_stores", { name, ...(metadata ? { metadata } : {}) });
+  return res.data;
+}
+
+export async function listVectorStores(params: ListParams = {}): Promise<ListPage<VectorStore>> {
+  const res = await openai.get("/vector_stores", { params });
   return res.data;
 }
 
-export async function listVectorStores() {
-  const res = await openai.get("/vector_stores");
+export async function getVectorStore(vectorStoreId: string): Promise<VectorStore> {
+  const res = await openai.get(apiPath`/vector_stores/${vectorStoreId}`);
   return res.data;
 }
 
-export async function listVectorStoreFiles(vectorStoreId: string) {
-  const res = await openai.get(`/vector_stores/${vectorStoreId}/files`);
+export async function updateVectorStore(vectorStoreId: string, update: VectorStoreUpdate): Promise<VectorStore> {
+  const res = await openai.post(apiPath`/vector_stores/${vectorStoreId}`, update);
+  return res.data;
+}
+
+export async function deleteVectorStore(vectorStoreId: string): Promise<{ id: string; object: string; deleted: boolean }> {
+  const res = await openai.delete(apiPath`/vector_stores/${vectorStoreId}`);
+  return res.data;
+}
+
+export async function listVectorStoreFiles(
+  vectorStoreId: string,
+  params: ListParams & { filter?: VectorStoreFile["status"] } = {}
+): Promise<ListPage<VectorStoreFile>> {
+  const res = await openai.get(apiPath`/vector_stores/${vectorStoreId}/files`, { params });
   return res.data;
 }
 
 export async function addFileToVectorStore(
   vectorStoreId: string,
-  fileId: string
-) {
+  fileId: string,
+  attributes?: VectorStoreFileAttributes,
+  chunkingStrategy?: ChunkingStrategy
+): Promise<VectorStoreFile> {
   // Associates an existing uploaded file with a vector store
-  const res = await openai.post(`/vector_stores/${vectorStoreId}/files`, {
+  const res = await openai.post(apiPath`/vector_stores/${vectorStoreId}/files`, {
     file_id: fileId,
+    ...(attributes ? { attributes } : {}),
+    ...(chunkingStrategy ? { chunking_strategy: chunkingStrategy } : {}),
   });
   return res.data;
 }
 
+export async function getVectorStoreFile(vectorStoreId: string, fileId: string): Promise<VectorStoreFile> {
+  const res = await openai.get(apiPath`/vector_stores/${vectorStoreId}/files/${fileId}`);
+  return res.data;
+}
+
+export interface VectorStoreFileContent {
+  object: "vector_store.file_content.page";
+  data: Array<{ type: "text"; text: string }>;
+  has_more: boolean;
+  next_page: string | null;
+}
+
+/**
+ * Replaces the attributes of a file in a vector store.
+ */
+export async function updateVectorStoreFileAttributes(
+  vectorStoreId: string,
+  fileId: string,
+  attributes: VectorStoreFileAttributes | null
+): Promise<VectorStoreFile> {
+  const res = await openai.post(apiPath`/vector_stores/${vectorStoreId}/files/${fileId}`, { attributes });
+  return res.data;
+}
+
+/**
+ * One page of the parsed text of a vector store file, as extracted during ingestion.
+ * Pass the previous page's next_page as `page` to get the following one.
+ */
+export async function getVectorStoreFileContent(
+  vectorStoreId: string,
+  fileId: string,
+  page?: string
+): Promise<VectorStoreFileContent> {
+  const res = await openai.get(apiPath`/vector_stores/${vectorStoreId}/files/${fileId}/content`, {
+    params: page ? { page } : undefined,
+  });
+  return res.data;
+}
+
+/**
+ * Detaches a file from a vector store. The file object itself is not deleted (see deleteFile).
+ */
+export async function removeFileFromVectorStore(
+  vectorStoreId: string,
+  fileId: string
+): Promise<{ id: string; object: string; deleted: boolean }> {
+  const res = await openai.delete(apiPath`/vector_stores/${vectorStoreId}/files/${fileId}`);
+  return res.data;
+}
+
+export interface VectorStoreFileBatch {
+  id: string;
+  object: "vector_store.files_batch";
+  created_at: number;
+  vector_store_id: string;
+  status: "in_progress" | "completed" | "cancelled" | "failed";
+  file_counts: { in_progress: number; completed: number; failed: number; cancelled: number; total: number };
+}
+
+/**
+ * Attaches several uploaded files to a vector store in one file batch (ingested in parallel upstream).
+ */
+export async function createVectorStoreFileBatch(
+  vectorStoreId: string,
+  fileIds: string[],
+  attributes?: VectorStoreFileAttributes,
+  chunkingStrategy?: ChunkingStrategy
+): Promise<VectorStoreFileBatch> {
+  const res = await openai.post(apiPath`/vector_stores/${vectorStoreId}/file_batches`, {
+    file_ids: fileIds,
+    ...(attributes ? { attributes } : {}),
+    ...(chunkingStrategy ? { chunking_strategy: chunkingStrategy } : {}),
+  });
+  return res.data;
+}
+
+export async function getVectorStoreFileBatch(vectorStoreId: string, batchId: string): Promise<VectorStoreFileBatch> {
+  const res = await openai.get(apiPath`/vector_stores/${vectorStoreId}/file_batches/${batchId}`);
+  return res.data;
+}
+
+export async function listVectorStoreFileBatchFiles(
+  vectorStoreId: string,
+  batchId: string,
+  params: ListParams & { filter?: VectorStoreFile["status"] } = {}
+): Promise<ListPage<VectorStoreFile>> {
+  const res = await openai.get(apiPath`/vector_stores/${vectorStoreId}/file_batches/${batchId}/files`, { params });
+  return res.data;
+}
+
+export type VectorStoreSearchParams = {
+  query: string | string[];
+  filters?: unknown;
+  max_num_results?: number;
+  ranking_options?: { ranker?: string; score_threshold?: number };
+  rewrite_query?: boolean;
+};
+
+export interface VectorStoreSearchResult {
+  file_id: string;
+  filename: string;
+  score: number;
+  attributes: VectorStoreFileAttributes | null;
+  content: Array<{ type: "text"; text: string }>;
+}
+
+export interface VectorStoreSearchPage {
+  object: "vector_store.search_results.page";
+  search_query: string[];
+  data: VectorStoreSearchResult[];
+  has_more: boolean;
+  next_page: string | null;
+}
+
+/**
+ * Searches a vector store for relevant chunks (no model call).
+ */
+export async function searchVectorStore(vectorStoreId: string, params: VectorStoreSearchParams): Promise<VectorStoreSearchPage> {
+  const res = await openai.post(apiPath`/vector_stores/${vectorStoreId}/search`, params);
+  return res.data;
+}
+
+// ------------------------------------------------------------
+// File helpers
+// ------------------------------------------------------------
+export interface OpenAIFile {
+  id: string;
+  object: "file";
+  bytes: number;
+  created_at: number;
+  filename: string;
+  purpose: string;
+}
+
+/**
+ * Uploads a file (a multer memory file, or a disk-stored one via `path`) to the Files API.
+ */
+export async function uploadFile(
+  file: { buffer?: Buffer; path?: string; originalname: string; mimetype?: string },
+  purpose = "assistants"
+): Promise<OpenAIFile> {
+  const form = new FormData();
+  form.append("purpose", purpose);
+  // Disk-stored uploads are streamed instead of read into memory
+  form.append("file", file.buffer ?? fs.createReadStream(file.path!), {
+    filename: file.originalname,
+    contentType: file.mimetype,
+  });
+
+  const res = await openai.post("/files", form, {
+    headers: form.getHeaders(),
+    maxBodyLength: Infinity,
+  });
+  return res.data;
+}
+
+export async function deleteFile(fileId: string): Promise<{ id: string; object: string; deleted: boolean }> {
+  const res = await openai.delete(apiPath`/files/${fileId}`);
+  return res.data;
+}
+
 // ------------------------------------------------------------
 // Chat / Responses helpers
 // ------------------------------------------------------------
@@ -75,6 +367,7 @@ interface ChatOptions {
   instructions?: string;
   model?: string;
   conversation?: string;
+  include?: string[];
 }
 
 /**
@@ -88,6 +381,7 @@ export async function chatWithResponsesApi({
   instructions,
   model,
   conversation,
+  include,
 }: ChatOptions) {
   const body: Record<string, unknown> = {
     model: model || DEFAULT_MODEL,
@@ -97,6 +391,7 @@ export async function chatWithResponsesApi({
   if (previousResponseId) body.previous_response_id = previousResponseId;
   if (conversation) body.conversation = conversation;
   if (tools) body.tools = tools;
+  if (include) body.include = include;
 
   const res = await openai.post("/responses", body);
   return res.data;
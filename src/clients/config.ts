@@ -0,0 +1,16 @@
+import dotenv from "dotenv";
+dotenv.config();
+
+/**
+ * Shared OpenAI endpoint configuration.
+ * - Optional OPENAI_API_BASE_URL (defaults to https://api.openai.com/v1)
+ *
+ * Every outbound call (SDK client, axios client, fetch-based audio/realtime calls)
+ * resolves its URL from here, so pointing OPENAI_API_BASE_URL at the mock server
+ * (src/mock) runs the whole app offline.
+ */
+export const OPENAI_BASE_URL = (process.env.OPENAI_API_BASE_URL || "https://api.openai.com/v1").replace(/\/+$/, "");
+
+export function openaiUrl(path: string, baseURL: string = OPENAI_BASE_URL): string {
+  return `${baseURL}${path.startsWith("/") ? path : `/${path}`}`;
+}
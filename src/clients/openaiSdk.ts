@@ -1,5 +1,6 @@
 import OpenAI from "openai";
 import dotenv from "dotenv";
+import { OPENAI_BASE_URL } from "./config";
 dotenv.config();
 
 /**
@@ -13,7 +14,7 @@ if (!apiKey) {
   throw new Error("OPENAI_API_KEY must be set in environment variables");
 }
 
-const baseURL = process.env.OPENAI_API_BASE_URL || "https://api.openai.com/v1";
+const baseURL = OPENAI_BASE_URL;
 export const DEFAULT_MODEL = process.env.OPENAI_MODEL || "gpt-4.1";
 
 // OpenAI SDK client
@@ -44,11 +45,34 @@ export function getOutputText(resp: any): string {
   return JSON.stringify(resp);
 }
 
+/**
+ * Context params for a Responses API call: the conversation carries history when present,
+ * otherwise previous_response_id chains turns (the API rejects both together).
+ */
+export function conversationContext(conversationId?: string, previousResponseId?: string) {
+  if (conversationId) return { conversation: conversationId };
+  if (previousResponseId) return { previous_response_id: previousResponseId };
+  return {};
+}
+
 /**
  * Create a new conversation using the Agents SDK so we can pass a valid conversation id
  * (must start with "conv_") to Responses API calls to maintain long context.
  */
-export async function createConversation(): Promise<string> {
-  const conv: any = await (openai as any).conversations.create({});
-  return conv.id as string;
+export async function createConversation(metadata?: Record<string, string>): Promise<string> {
+  const conv = await openai.conversations.create(metadata ? { metadata } : {});
+  return conv.id;
+}
+
+/**
+ * Whether a server-side conversation exists (false on 404; other failures are thrown).
+ */
+export async function conversationExists(conversationId: string): Promise<boolean> {
+  try {
+    await openai.conversations.retrieve(conversationId);
+    return true;
+  } catch (err) {
+    if (err instanceof OpenAI.APIError && err.status === 404) return false;
+    throw err;
+  }
 }
@@ -0,0 +1,692 @@
+import express from "express";
+import multer from "multer";
+import http from "http";
+import { AddressInfo } from "net";
+import { v4 as uuidv4 } from "uuid";
+
+/**
+ * In-process fake of the OpenAI endpoints this backend calls
+ * - /responses (JSON and SSE streaming), /conversations, /files, /vector_stores (incl. file_batches),
+ *   /audio/transcriptions, /realtime/sessions
+ * - Responses are scripted: queue specs with enqueueResponse() or pass a `responses` handler;
+ *   otherwise a deterministic default answer is generated (structured output requests get JSON
+ *   built from their schema, so supervisor routing works offline)
+ * - Every request is recorded in `requests` for assertions
+ *
+ * Point the app at it with OPENAI_API_BASE_URL=<mock.baseURL>.
+ */
+export type MockResponseSpec = {
+  text?: string;
+  // Emit function_call output items instead of a message
+  functionCalls?: Array<{ name: string; arguments: Record<string, unknown> | string }>;
+  // Prepend a file_search_call output item (and its streaming events)
+  fileSearch?: boolean;
+  // Hits of that file_search call (default: files of the searched stores); returned as
+  // results when the request includes "file_search_call.results" and cited as file_citation annotations
+  fileSearchResults?: Array<{ file_id: string; filename: string; score: number; text: string; attributes?: Record<string, unknown> }>;
+  annotations?: unknown[];
+  // Response-level failure (status "failed" / `response.failed` event)
+  failed?: { code: string; message: string };
+  // Transport-level failure: reply with this HTTP status and an OpenAI-style error body
+  httpError?: { status: number; message: string };
+};
+
+export type MockResponseHandler = (body: any) => MockResponseSpec | undefined;
+
+export type MockOpenAIOptions = {
+  port?: number;
+  responses?: MockResponseHandler;
+  transcription?: string | ((file: { originalname: string; size: number }) => string);
+  // Reject unknown conversation ids with 404 like the real API (default: create them on first use)
+  strictConversations?: boolean;
+  // Error for POST /conversations, checked per request (default: conversations are always created)
+  conversationCreateError?: () => { status: number; message: string } | undefined;
+  // Time attached files stay in_progress before completing (empty files fail) (default: 0)
+  ingestionDelayMs?: number;
+};
+
+export type RecordedRequest = { method: string; path: string; body: any; at: number };
+
+export type MockOpenAIState = {
+  responses: Map<string, any>;
+  conversations: Map<string, { id: string; object: "conversation"; created_at: number; metadata: Record<string, string>; items: any[] }>;
+  files: Map<string, { object: any; content: Buffer }>;
+  vectorStores: Map<string, any>;
+  vectorStoreFiles: Map<string, Map<string, any>>;
+  fileBatches: Map<string, { batch: any; fileIds: string[] }>;
+};
+
+export type MockOpenAI = {
+  url: string;
+  // Value for OPENAI_API_BASE_URL
+  baseURL: string;
+  requests: RecordedRequest[];
+  state: MockOpenAIState;
+  enqueueResponse(...specs: MockResponseSpec[]): void;
+  reset(): void;
+  close(): Promise<void>;
+};
+
+const now = () => Math.floor(Date.now() / 1000);
+// Text parts per vector store file content page
+const CONTENT_PAGE_SIZE = 100;
+const newId = (prefix: string) => `${prefix}_mock_${uuidv4().replace(/-/g, "").slice(0, 24)}`;
+
+function apiError(res: express.Response, status: number, message: string, type = "invalid_request_error") {
+  return res.status(status).json({ error: { message, type, param: null, code: null } });
+}
+
+// Cursor-paginated list page (?after=&before=&limit=&order=, default desc by creation like the real API)
+function list<T extends { id: string }>(items: T[], query: Record<string, any> = {}) {
+  let data = query.order === "asc" ? [...items] : [...items].reverse();
+  if (query.after) data = data.slice(data.findIndex((i) => i.id === query.after) + 1);
+  if (query.before) {
+    const index = data.findIndex((i) => i.id === query.before);
+    if (index >= 0) data = data.slice(0, index);
+  }
+  const limit = Math.min(parseInt(query.limit, 10) || 20, 100);
+  const page = data.slice(0, limit);
+  return { object: "list", data: page, first_id: page[0]?.id ?? null, last_id: page[page.length - 1]?.id ?? null, has_more: data.length > limit };
+}
+
+// Stored conversation item: string content becomes an input_text / output_text part like the real API
+function conversationItem(item: any) {
+  const content =
+    typeof item?.content === "string"
+      ? [{ type: item.role === "assistant" ? "output_text" : "input_text", text: item.content }]
+      : item?.content;
+  return { id: newId("msg"), type: "message", status: "completed", ...item, content };
+}
+
+// Last user-visible text of a Responses API input
+export function inputText(input: unknown): string {
+  if (typeof input === "string") return input;
+  if (!Array.isArray(input)) return "";
+  for (let i = input.length - 1; i >= 0; i--) {
+    const item: any = input[i];
+    if (item?.type === "function_call_output") return `tool output ${item.output}`;
+    if (typeof item?.content === "string") return item.content;
+    if (Array.isArray(item?.content)) {
+      const text = item.content.map((c: any) => c?.text).filter(Boolean).join("\n");
+      if (text) return text;
+    }
+  }
+  return "";
+}
+
+// Attribute filter evaluation (comparison and and/or compound filters), as applied by file_search / search
+export function matchesFilter(attributes: Record<string, unknown> | null | undefined, filter: any): boolean {
+  if (!filter) return true;
+  if (filter.type === "and") return filter.filters.every((f: any) => matchesFilter(attributes, f));
+  if (filter.type === "or") return filter.filters.some((f: any) => matchesFilter(attributes, f));
+  const actual: any = attributes?.[filter.key];
+  const expected = filter.value;
+  switch (filter.type) {
+    case "eq":
+      return actual === expected;
+    case "ne":
+      return actual !== expected;
+    case "gt":
+      return actual !== undefined && actual > expected;
+    case "gte":
+      return actual !== undefined && actual >= expected;
+    case "lt":
+      return actual !== undefined && actual < expected;
+    case "lte":
+      return actual !== undefined && actual <= expected;
+    case "in":
+      return Array.isArray(expected) && expected.includes(actual);
+    case "nin":
+      return Array.isArray(expected) && !expected.includes(actual);
+    default:
+      return false;
+  }
+}
+
+// Share of query terms found in the text (0..1)
+function relevance(queries: string[], text: string): number {
+  const terms = queries.join(" ").toLowerCase().split(/\W+/).filter(Boolean);
+  if (terms.length === 0) return 0;
+  const haystack = text.toLowerCase();
+  return terms.filter((t) => haystack.includes(t)).length / terms.length;
+}
+
+// Deterministic sample value for a JSON schema (first enum value, input text for strings)
+function sampleFromSchema(schema: any, text: string): unknown {
+  if (!schema || typeof schema !== "object") return null;
+  if (Array.isArray(schema.enum)) return schema.enum[0];
+  if (schema.anyOf) return sampleFromSchema(schema.anyOf[0], text);
+  const type = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== "null") : schema.type;
+  switch (type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, value]) => [key, sampleFromSchema(value, text)])
+      );
+    case "array":
+      return [];
+    case "string":
+      return text;
+    case "number":
+    case "integer":
+      return typeof schema.maximum === "number" ? schema.maximum : 1;
+    case "boolean":
+      return true;
+    default:
+      return null;
+  }
+}
+
+function defaultSpec(body: any): MockResponseSpec {
+  const text = inputText(body.input);
+  const format = body.text?.format;
+  if (format?.type === "json_schema") {
+    return { text: JSON.stringify(sampleFromSchema(format.schema, text)) };
+  }
+  const fileSearch = Array.isArray(body.tools) && body.tools.some((t: any) => t?.type === "file_search");
+  return { text: `Mock answer: ${text}`, fileSearch };
+}
+
+function buildResponse(body: any, spec: MockResponseSpec) {
+  const text = spec.text ?? "";
+  const output: any[] = [];
+  const hits = spec.fileSearchResults || [];
+  if (spec.fileSearch) {
+    const includeResults = Array.isArray(body.include) && body.include.includes("file_search_call.results");
+    output.push({
+      type: "file_search_call",
+      id: newId("fs"),
+      status: "completed",
+      queries: [inputText(body.input)],
+      results: includeResults ? hits : null,
+    });
+  }
+  const annotations =
+    spec.annotations ||
+    hits.map((hit) => ({ type: "file_citation", file_id: hit.file_id, filename: hit.filename, index: text.length }));
+  if (spec.functionCalls?.length) {
+    for (const call of spec.functionCalls) {
+      output.push({
+        type: "function_call",
+        id: newId("fc"),
+        call_id: newId("call"),
+        name: call.name,
+        arguments: typeof call.arguments === "string" ? call.arguments : JSON.stringify(call.arguments),
+        status: "completed",
+      });
+    }
+  } else if (!spec.failed) {
+    output.push({
+      type: "message",
+      id: newId("msg"),
+      role: "assistant",
+      status: "completed",
+      content: [{ type: "output_text", text, annotations }],
+    });
+  }
+
+  const inputTokens = Math.ceil(JSON.stringify(body.input ?? "").length / 4);
+  const outputTokens = Math.ceil(text.length / 4);
+  return {
+    id: newId("resp"),
+    object: "response",
+    created_at: now(),
+    status: spec.failed ? "failed" : "completed",
+    error: spec.failed || null,
+    model: body.model || "mock-model",
+    instructions: body.instructions ?? null,
+    output,
+    previous_response_id: body.previous_response_id ?? null,
+    conversation: body.conversation ? { id: typeof body.conversation === "string" ? body.conversation : body.conversation.id } : null,
+    tools: body.tools || [],
+    usage: { input_tokens: inputTokens, output_tokens: outputTokens, total_tokens: inputTokens + outputTokens },
+  };
+}
+
+// SSE events for a response, in the order the Responses API emits them
+function streamEvents(response: any): any[] {
+  const events: any[] = [];
+  const inProgress = { ...response, status: "in_progress", output: [], usage: null };
+  events.push({ type: "response.created", response: inProgress });
+  events.push({ type: "response.in_progress", response: inProgress });
+
+  response.output.forEach((item: any, outputIndex: number) => {
+    if (item.type === "file_search_call") {
+      for (const status of ["in_progress", "searching", "completed"]) {
+        events.push({ type: `response.file_search_call.${status}`, item_id: item.id, output_index: outputIndex });
+      }
+    } else if (item.type === "function_call") {
+      events.push({ type: "response.output_item.added", output_index: outputIndex, item: { ...item, arguments: "", status: "in_progress" } });
+      events.push({ type: "response.function_call_arguments.done", item_id: item.id, output_index: outputIndex, arguments: item.arguments });
+    } else if (item.type === "message") {
+      const text: string = item.content[0].text;
+      // Word-sized deltas so clients see incremental text
+      for (const delta of text.match(/\S+\s*|\s+/g) || []) {
+        events.push({ type: "response.output_text.delta", item_id: item.id, output_index: outputIndex, content_index: 0, delta });
+      }
+      events.push({ type: "response.output_text.done", item_id: item.id, output_index: outputIndex, content_index: 0, text });
+    }
+    events.push({ type: "response.output_item.done", output_index: outputIndex, item });
+  });
+
+  events.push(
+    response.status === "failed"
+      ? { type: "response.failed", response }
+      : { type: "response.completed", response }
+  );
+  return events.map((event, sequence_number) => ({ ...event, sequence_number }));
+}
+
+/**
+ * Start the fake server (port 0 = random free port).
+ */
+export async function startMockOpenAI(options: MockOpenAIOptions = {}): Promise<MockOpenAI> {
+  const app = express();
+  const upload = multer({ storage: multer.memoryStorage() });
+  const requests: RecordedRequest[] = [];
+  const queue: MockResponseSpec[] = [];
+  const state: MockOpenAIState = {
+    responses: new Map(),
+    conversations: new Map(),
+    files: new Map(),
+    vectorStores: new Map(),
+    vectorStoreFiles: new Map(),
+    fileBatches: new Map(),
+  };
+  // Vector store file -> time its ingestion finishes
+  const readyAt = new WeakMap<object, number>();
+
+  // "auto" (or no strategy) resolves to the static 800/400 token default, as upstream reports it
+  const resolvedChunking = (strategy?: any) =>
+    strategy?.type === "static" ? strategy : { type: "static", static: { max_chunk_size_tokens: 800, chunk_overlap_tokens: 400 } };
+
+  const attachFile = (vectorStoreId: string, fileId: string, attributes?: Record<string, unknown>, chunkingStrategy?: any) => {
+    const vsFile = {
+      id: fileId,
+      object: "vector_store.file",
+      vector_store_id: vectorStoreId,
+      status: "in_progress",
+      created_at: now(),
+      usage_bytes: state.files.get(fileId)?.object.bytes ?? 0,
+      attributes: attributes || {},
+      chunking_strategy: resolvedChunking(chunkingStrategy),
+      last_error: null as { code: string; message: string } | null,
+    };
+    readyAt.set(vsFile, Date.now() + (options.ingestionDelayMs ?? 0));
+    state.vectorStoreFiles.get(vectorStoreId)!.set(fileId, vsFile);
+    return settle(vsFile);
+  };
+
+  // Complete (or fail) files whose ingestion delay elapsed
+  const settle = (vsFile: any) => {
+    if (vsFile.status === "in_progress" && Date.now() >= (readyAt.get(vsFile) ?? 0)) {
+      if (state.files.get(vsFile.id)?.content.length) {
+        vsFile.status = "completed";
+      } else {
+        vsFile.status = "failed";
+        vsFile.last_error = { code: "invalid_file", message: "The file is empty." };
+      }
+    }
+    return vsFile;
+  };
+
+  // Default file_search hits: the first files of the searched stores, in order
+  const searchHits = (body: any) => {
+    const tool = (body.tools || []).find((t: any) => t?.type === "file_search");
+    const limit = tool?.max_num_results ?? 3;
+    return (tool?.vector_store_ids || [])
+      .flatMap((id: string) => Array.from(state.vectorStoreFiles.get(id)?.values() || []))
+      .filter((vsFile: any) => matchesFilter(vsFile.attributes, tool.filters))
+      .slice(0, limit)
+      .map((vsFile: any, i: number) => {
+        const file = state.files.get(vsFile.id);
+        return {
+          file_id: vsFile.id,
+          filename: file?.object.filename ?? vsFile.id,
+          score: Math.max(0.1, 0.9 - i * 0.1),
+          text: file?.content.toString("utf8").slice(0, 800) ?? "",
+          attributes: vsFile.attributes,
+        };
+      });
+  };
+
+  const fileCounts = (files: any[]) => {
+    const counts = { in_progress: 0, completed: 0, failed: 0, cancelled: 0, total: files.length };
+    for (const f of files) counts[settle(f).status as keyof typeof counts] += 1;
+    return counts;
+  };
+
+  app.use(express.json({ limit: "20mb" }));
+  // The SDK and fetch callers use /v1 paths; accept them with or without the prefix
+  const v1 = express.Router();
+  app.use("/v1", v1);
+  app.use("/", v1);
+
+  v1.use((req, _res, next) => {
+    requests.push({ method: req.method, path: req.path, body: req.body, at: Date.now() });
+    next();
+  });
+
+  // --- Responses ---
+  v1.post("/responses", (req, res) => {
+    const body = req.body || {};
+    const spec = queue.shift() || options.responses?.(body) || defaultSpec(body);
+    if (spec.fileSearch && !spec.fileSearchResults) spec.fileSearchResults = searchHits(body);
+    if (spec.httpError) {
+      return apiError(res, spec.httpError.status, spec.httpError.message, "server_error");
+    }
+    const conversationId = typeof body.conversation === "string" ? body.conversation : body.conversation?.id;
+    if (conversationId && !state.conversations.has(conversationId)) {
+      if (options.strictConversations) {
+        return apiError(res, 404, `Conversation with id '${conversationId}' not found.`);
+      }
+      state.conversations.set(conversationId, { id: conversationId, object: "conversation", created_at: now(), metadata: {}, items: [] });
+    }
+
+    const response = buildResponse(body, spec);
+    if (body.store !== false) state.responses.set(response.id, response);
+    const conversation = response.conversation && state.conversations.get(response.conversation.id);
+    if (conversation) conversation.items.push(...response.output);
+
+    if (!body.stream) return res.json(response);
+
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache");
+    for (const event of streamEvents(response)) {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    }
+    res.end();
+  });
+
+  v1.get("/responses/:id", (req, res) => {
+    const response = state.responses.get(req.params.id);
+    if (!response) return apiError(res, 404, `Response with id '${req.params.id}' not found.`);
+    res.json(response);
+  });
+
+  // --- Conversations ---
+  v1.post("/conversations", (req, res) => {
+    const error = options.conversationCreateError?.();
+    if (error) return apiError(res, error.status, error.message);
+    const conversation = {
+      id: newId("conv"),
+      object: "conversation" as const,
+      created_at: now(),
+      metadata: req.body?.metadata || {},
+      items: Array.isArray(req.body?.items) ? req.body.items.map(conversationItem) : [],
+    };
+    state.conversations.set(conversation.id, conversation);
+    const { items: _items, ...rest } = conversation;
+    res.json(rest);
+  });
+
+  v1.get("/conversations/:id", (req, res) => {
+    const conversation = state.conversations.get(req.params.id);
+    if (!conversation) return apiError(res, 404, `Conversation with id '${req.params.id}' not found.`);
+    const { items: _items, ...rest } = conversation;
+    res.json(rest);
+  });
+
+  v1.post("/conversations/:id/items", (req, res) => {
+    const conversation = state.conversations.get(req.params.id);
+    if (!conversation) return apiError(res, 404, `Conversation with id '${req.params.id}' not found.`);
+    const items = Array.isArray(req.body?.items) ? req.body.items.map(conversationItem) : [];
+    if (!items.length || items.length > 20) return apiError(res, 400, "items must hold 1 to 20 items");
+    conversation.items.push(...items);
+    res.json(list(items, { limit: items.length, order: "asc" }));
+  });
+
+  v1.get("/conversations/:id/items", (req, res) => {
+    const conversation = state.conversations.get(req.params.id);
+    if (!conversation) return apiError(res, 404, `Conversation with id '${req.params.id}' not found.`);
+    res.json(list(conversation.items, req.query));
+  });
+
+  v1.delete("/conversations/:id", (req, res) => {
+    const deleted = state.conversations.delete(req.params.id);
+    if (!deleted) return apiError(res, 404, `Conversation with id '${req.params.id}' not found.`);
+    res.json({ id: req.params.id, object: "conversation.deleted", deleted: true });
+  });
+
+  // --- Files ---
+  v1.post("/files", upload.single("file"), (req, res) => {
+    const file = (req as any).file;
+    if (!file) return apiError(res, 400, "Missing file");
+    const object = {
+      id: newId("file"),
+      object: "file",
+      bytes: file.size,
+      created_at: now(),
+      filename: file.originalname,
+      purpose: req.body?.purpose || "assistants",
+    };
+    state.files.set(object.id, { object, content: file.buffer });
+    res.json(object);
+  });
+
+  v1.get("/files/:id", (req, res) => {
+    const file = state.files.get(req.params.id);
+    if (!file) return apiError(res, 404, `No such File object: ${req.params.id}`);
+    res.json(file.object);
+  });
+
+  v1.get("/files/:id/content", (req, res) => {
+    const file = state.files.get(req.params.id);
+    if (!file) return apiError(res, 404, `No such File object: ${req.params.id}`);
+    res.send(file.content);
+  });
+
+  v1.delete("/files/:id", (req, res) => {
+    if (!state.files.delete(req.params.id)) return apiError(res, 404, `No such File object: ${req.params.id}`);
+    res.json({ id: req.params.id, object: "file", deleted: true });
+  });
+
+  // --- Vector stores ---
+  v1.post("/vector_stores", (req, res) => {
+    const store = {
+      id: newId("vs"),
+      object: "vector_store",
+      created_at: now(),
+      name: req.body?.name ?? null,
+      metadata: req.body?.metadata || {},
+      expires_after: req.body?.expires_after ?? null,
+      status: "completed",
+      usage_bytes: 0,
+      file_counts: { in_progress: 0, completed: 0, failed: 0, cancelled: 0, total: 0 },
+    };
+    state.vectorStores.set(store.id, store);
+    state.vectorStoreFiles.set(store.id, new Map());
+    for (const fileId of req.body?.file_ids || []) attachFile(store.id, fileId, undefined, req.body?.chunking_strategy);
+    res.json(store);
+  });
+
+  v1.get("/vector_stores", (req, res) => {
+    res.json(list(Array.from(state.vectorStores.values()), req.query));
+  });
+
+  v1.get("/vector_stores/:id", (req, res) => {
+    const store = state.vectorStores.get(req.params.id);
+    if (!store) return apiError(res, 404, `No vector store found with id '${req.params.id}'.`);
+    store.file_counts = fileCounts(Array.from(state.vectorStoreFiles.get(store.id)!.values()));
+    res.json(store);
+  });
+
+  v1.post("/vector_stores/:id", (req, res) => {
+    const store = state.vectorStores.get(req.params.id);
+    if (!store) return apiError(res, 404, `No vector store found with id '${req.params.id}'.`);
+    for (const key of ["name", "metadata", "expires_after"]) {
+      if (req.body && key in req.body) store[key] = req.body[key];
+    }
+    res.json(store);
+  });
+
+  v1.delete("/vector_stores/:id", (req, res) => {
+    if (!state.vectorStores.delete(req.params.id)) {
+      return apiError(res, 404, `No vector store found with id '${req.params.id}'.`);
+    }
+    state.vectorStoreFiles.delete(req.params.id);
+    res.json({ id: req.params.id, object: "vector_store.deleted", deleted: true });
+  });
+
+  v1.post("/vector_stores/:id/files", (req, res) => {
+    const files = state.vectorStoreFiles.get(req.params.id);
+    if (!files) return apiError(res, 404, `No vector store found with id '${req.params.id}'.`);
+    const fileId = req.body?.file_id;
+    if (!fileId || !state.files.has(fileId)) return apiError(res, 404, `No file found with id '${fileId}'.`);
+    res.json(attachFile(req.params.id, fileId, req.body?.attributes, req.body?.chunking_strategy));
+  });
+
+  v1.get("/vector_stores/:id/files", (req, res) => {
+    const files = state.vectorStoreFiles.get(req.params.id);
+    if (!files) return apiError(res, 404, `No vector store found with id '${req.params.id}'.`);
+    const filtered = Array.from(files.values()).map(settle).filter((f) => !req.query.filter || f.status === req.query.filter);
+    res.json(list(filtered, req.query));
+  });
+
+  v1.get("/vector_stores/:id/files/:fileId", (req, res) => {
+    const vsFile = state.vectorStoreFiles.get(req.params.id)?.get(req.params.fileId);
+    if (!vsFile) return apiError(res, 404, `No file found with id '${req.params.fileId}' in vector store '${req.params.id}'.`);
+    res.json(settle(vsFile));
+  });
+
+  v1.post("/vector_stores/:id/files/:fileId", (req, res) => {
+    const vsFile = state.vectorStoreFiles.get(req.params.id)?.get(req.params.fileId);
+    if (!vsFile) return apiError(res, 404, `No file found with id '${req.params.fileId}' in vector store '${req.params.id}'.`);
+    vsFile.attributes = req.body?.attributes ?? null;
+    res.json(settle(vsFile));
+  });
+
+  v1.get("/vector_stores/:id/files/:fileId/content", (req, res) => {
+    const vsFile = state.vectorStoreFiles.get(req.params.id)?.get(req.params.fileId);
+    if (!vsFile) return apiError(res, 404, `No file found with id '${req.params.fileId}' in vector store '${req.params.id}'.`);
+    // One text part per line, CONTENT_PAGE_SIZE parts per page; the `page` query param takes next_page
+    const lines = (state.files.get(req.params.fileId)?.content.toString("utf8") ?? "").split("\n");
+    const start = Number(req.query.page) || 0;
+    const end = start + CONTENT_PAGE_SIZE;
+    res.json({
+      object: "vector_store.file_content.page",
+      data: lines.slice(start, end).map((text) => ({ type: "text", text })),
+      has_more: end < lines.length,
+      next_page: end < lines.length ? String(end) : null,
+    });
+  });
+
+  v1.delete("/vector_stores/:id/files/:fileId", (req, res) => {
+    if (!state.vectorStoreFiles.get(req.params.id)?.delete(req.params.fileId)) {
+      return apiError(res, 404, `No file found with id '${req.params.fileId}' in vector store '${req.params.id}'.`);
+    }
+    res.json({ id: req.params.fileId, object: "vector_store.file.deleted", deleted: true });
+  });
+
+  v1.post("/vector_stores/:id/search", (req, res) => {
+    const files = state.vectorStoreFiles.get(req.params.id);
+    if (!files) return apiError(res, 404, `No vector store found with id '${req.params.id}'.`);
+    const query = req.body?.query;
+    if (!query || (Array.isArray(query) && query.length === 0)) return apiError(res, 400, "Missing required parameter: 'query'.");
+
+    const queries: string[] = Array.isArray(query) ? query : [query];
+    // "Rewriting" lowercases and strips punctuation so callers can tell it happened
+    const searchQuery = req.body?.rewrite_query ? queries.map((q) => q.toLowerCase().replace(/[^\w\s]/g, "").trim()) : queries;
+    const threshold = req.body?.ranking_options?.score_threshold ?? 0;
+    const data = Array.from(files.values())
+      .map(settle)
+      .filter((f) => f.status === "completed" && matchesFilter(f.attributes, req.body?.filters))
+      .map((f) => {
+        const file = state.files.get(f.id);
+        const text = file?.content.toString("utf8") ?? "";
+        return {
+          file_id: f.id,
+          filename: file?.object.filename ?? f.id,
+          score: relevance(searchQuery, text),
+          attributes: f.attributes ?? null,
+          content: [{ type: "text", text: text.slice(0, 800) }],
+        };
+      })
+      .filter((hit) => hit.score > 0 && hit.score >= threshold)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, req.body?.max_num_results ?? 10);
+
+    res.json({ object: "vector_store.search_results.page", search_query: searchQuery, data, has_more: false, next_page: null });
+  });
+
+  v1.post("/vector_stores/:id/file_batches", (req, res) => {
+    if (!state.vectorStoreFiles.has(req.params.id)) return apiError(res, 404, `No vector store found with id '${req.params.id}'.`);
+    const fileIds: string[] = req.body?.file_ids || [];
+    const missing = fileIds.find((id) => !state.files.has(id));
+    if (missing) return apiError(res, 404, `No file found with id '${missing}'.`);
+
+    const files = fileIds.map((fileId) => attachFile(req.params.id, fileId, req.body?.attributes, req.body?.chunking_strategy));
+    const batch = { id: newId("vsfb"), object: "vector_store.files_batch", created_at: now(), vector_store_id: req.params.id };
+    state.fileBatches.set(batch.id, { batch, fileIds });
+    const counts = fileCounts(files);
+    res.json({ ...batch, status: counts.in_progress ? "in_progress" : "completed", file_counts: counts });
+  });
+
+  v1.get("/vector_stores/:id/file_batches/:batchId", (req, res) => {
+    const entry = state.fileBatches.get(req.params.batchId);
+    if (!entry || entry.batch.vector_store_id !== req.params.id) return apiError(res, 404, `No file batch found with id '${req.params.batchId}'.`);
+    const files = entry.fileIds.map((id) => state.vectorStoreFiles.get(req.params.id)?.get(id)).filter(Boolean);
+    const counts = fileCounts(files);
+    res.json({ ...entry.batch, status: counts.in_progress ? "in_progress" : "completed", file_counts: counts });
+  });
+
+  v1.get("/vector_stores/:id/file_batches/:batchId/files", (req, res) => {
+    const entry = state.fileBatches.get(req.params.batchId);
+    if (!entry || entry.batch.vector_store_id !== req.params.id) return apiError(res, 404, `No file batch found with id '${req.params.batchId}'.`);
+    const files = entry.fileIds
+      .map((id) => state.vectorStoreFiles.get(req.params.id)?.get(id))
+      .filter(Boolean)
+      .map(settle)
+      .filter((f) => !req.query.filter || f.status === req.query.filter);
+    res.json(list(files, req.query));
+  });
+
+  // --- Audio / realtime ---
+  v1.post("/audio/transcriptions", upload.single("file"), (req, res) => {
+    const file = (req as any).file;
+    if (!file) return apiError(res, 400, "Missing file");
+    const text =
+      typeof options.transcription === "function"
+        ? options.transcription(file)
+        : options.transcription ?? `Mock transcription of ${file.originalname}`;
+    res.json({ text });
+  });
+
+  v1.post("/realtime/sessions", (req, res) => {
+    res.json({
+      id: newId("sess"),
+      object: "realtime.session",
+      model: req.body?.model || "mock-realtime",
+      voice: req.body?.voice || "alloy",
+      modalities: req.body?.modalities || ["text", "audio"],
+      client_secret: { value: newId("ek"), expires_at: now() + 60 },
+    });
+  });
+
+  v1.use((req, res) => apiError(res, 404, `Mock OpenAI does not implement ${req.method} ${req.path}`));
+
+  const server = http.createServer(app);
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  const url = `http://127.0.0.1:${port}`;
+
+  return {
+    url,
+    baseURL: `${url}/v1`,
+    requests,
+    state,
+    enqueueResponse: (...specs) => {
+      queue.push(...specs);
+    },
+    reset: () => {
+      requests.length = 0;
+      queue.length = 0;
+      state.responses.clear();
+      state.conversations.clear();
+      state.files.clear();
+      state.vectorStores.clear();
+      state.vectorStoreFiles.clear();
+      state.fileBatches.clear();
+    },
+    close: () => new Promise<void>((resolve, reject) => server.close((e) => (e ? reject(e) : resolve()))),
+  };
+}
@@ -0,0 +1,16 @@
+import { startMockOpenAI } from "./openaiMock";
+
+/**
+ * Standalone mock OpenAI server for offline development:
+ *   npm run mock:openai
+ *   OPENAI_API_BASE_URL=http://127.0.0.1:4010/v1 OPENAI_API_KEY=mock npm run dev
+ */
+const port = parseInt(process.env.MOCK_OPENAI_PORT || "4010", 10);
+
+startMockOpenAI({
+  port,
+  strictConversations: process.env.MOCK_OPENAI_STRICT_CONVERSATIONS === "true",
+  ingestionDelayMs: parseInt(process.env.MOCK_OPENAI_INGESTION_DELAY_MS || "0", 10),
+}).then((mock) => {
+  console.log(`🧪 Mock OpenAI listening on ${mock.url} (OPENAI_API_BASE_URL=${mock.baseURL})`);
+});
@@ -0,0 +1,329 @@
+import path from "path";
+import { z } from "zod";
+import { defineProcessor } from "./registry";
+import type { TextDocument } from "./types";
+
+const extension = (doc: TextDocument) => path.extname(doc.filename).toLowerCase();
+const baseMime = (doc: TextDocument) => (doc.mimetype || "").split(";")[0].trim().toLowerCase();
+
+// Same name with a new extension (report.html -> report.txt)
+const renamed = (filename: string, ext: string) => filename.slice(0, filename.length - path.extname(filename).length) + ext;
+
+// Collapse runs of spaces, trim lines and keep at most one blank line between paragraphs
+function tidy(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => line.replace(/[ \t\f\v\u00a0]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  euro: "€",
+  hellip: "…",
+  mdash: "—",
+  ndash: "–",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  laquo: "«",
+  raquo: "»",
+  agrave: "à",
+  aacute: "á",
+  acirc: "â",
+  auml: "ä",
+  ccedil: "ç",
+  egrave: "è",
+  eacute: "é",
+  ecirc: "ê",
+  euml: "ë",
+  icirc: "î",
+  iuml: "ï",
+  ocirc: "ô",
+  ouml: "ö",
+  ugrave: "ù",
+  ucirc: "û",
+  uuml: "ü",
+  szlig: "ß",
+};
+
+// User-supplied regular expressions run synchronously over whole documents (up to the upload limit),
+// so they must compile, stay short and avoid nested quantifiers such as (a+)+ (catastrophic backtracking)
+const PATTERN_MAX_CHARS = 200;
+const QUANTIFIER = String.raw`(?:[+*]|\{\d+(?:,\d*)?\})`;
+const NESTED_QUANTIFIER = new RegExp(String.raw`\((?:\\.|[^()\\])*${QUANTIFIER}(?:\\.|[^()\\])*\)${QUANTIFIER}`);
+
+function regexProblem(pattern: string, flags: string): string | undefined {
+  try {
+    new RegExp(pattern, flags);
+  } catch (err) {
+    return (err as Error).message;
+  }
+  if (NESTED_QUANTIFIER.test(pattern)) return `Nested quantifiers are not allowed: ${pattern}`;
+  return undefined;
+}
+
+const regexPattern = (flags: string) =>
+  z
+    .string()
+    .min(1)
+    .max(PATTERN_MAX_CHARS)
+    .superRefine((pattern, ctx) => {
+      const problem = regexProblem(pattern, flags);
+      if (problem) ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+    });
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] !== "#") return ENTITIES[entity] ?? ENTITIES[entity.toLowerCase()] ?? match;
+    const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+  });
+}
+
+export const htmlToTextProcessor = defineProcessor({
+  name: "html_to_text",
+  description: "Converts HTML to plain text (drops scripts, styles and optionally nav/header/footer/aside); sets the `title` attribute.",
+  optionsSchema: z.object({
+    stripLayout: z.boolean().default(true),
+    keepLinks: z.boolean().default(false),
+  }),
+  accepts: (doc) => [".html", ".htm"].includes(extension(doc)) || baseMime(doc) === "text/html",
+  process(doc, { stripLayout, keepLinks }) {
+    const title = doc.text.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+    const dropped = ["script", "style", "noscript", "template", "head", ...(stripLayout ? ["nav", "header", "footer", "aside"] : [])];
+
+    let html = doc.text.replace(/<!--[\s\S]*?-->/g, "");
+    for (const tag of dropped) html = html.replace(new RegExp(`<${tag}\\b[\\s\\S]*?<\\/${tag}>`, "gi"), "");
+    if (keepLinks) html = html.replace(/<a\b[^>]*href=["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi, "$2 ($1)");
+
+    const text = html
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<li\b[^>]*>/gi, "\n- ")
+      .replace(/<\/?(p|div|h[1-6]|ul|ol|tr|table|section|article|blockquote|pre|main|figure|dl|dt|dd)\b[^>]*>/gi, "\n\n")
+      .replace(/<\/t[dh]>/gi, "\t")
+      .replace(/<[^>]+>/g, "");
+
+    return {
+      filename: renamed(doc.filename, ".txt"),
+      mimetype: "text/plain",
+      text: tidy(decodeEntities(text)),
+      attributes: { ...doc.attributes, ...(title?.trim() ? { title: tidy(decodeEntities(title)).slice(0, 512) } : {}) },
+    };
+  },
+});
+
+export const markdownToTextProcessor = defineProcessor({
+  name: "markdown_to_text",
+  description: "Converts Markdown to plain text (front matter, link/image syntax and emphasis removed, code kept); sets `title` from the first heading.",
+  optionsSchema: z.object({
+    keepLinks: z.boolean().default(false),
+  }),
+  accepts: (doc) => [".md", ".markdown"].includes(extension(doc)) || baseMime(doc) === "text/markdown",
+  process(doc, { keepLinks }) {
+    const source = doc.text.replace(/^---\n[\s\S]*?\n---\n/, "");
+    const title = source.match(/^#\s+(.+)$/m)?.[1];
+
+    // Odd parts are fenced code blocks, kept verbatim without the fences
+    const text = source
+      .split(/^(?:```|~~~).*$/m)
+      .map((part, i) =>
+        i % 2 === 1
+          ? part
+          : part
+              .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+              .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, keepLinks ? "$1 ($2)" : "$1")
+              .replace(/^#{1,6}\s+/gm, "")
+              .replace(/^[ \t]{0,3}>[ \t]?/gm, "")
+              .replace(/^[ \t]*([-*_])([ \t]*\1){2,}[ \t]*$/gm, "")
+              .replace(/(\*\*|__)(.+?)\1/g, "$2")
+              .replace(/(^|[^\w*])[*_]([^*_\n]+)[*_](?=[^\w*]|$)/g, "$1$2")
+              .replace(/`([^`\n]+)`/g, "$1")
+      )
+      .join("");
+
+    return {
+      filename: renamed(doc.filename, ".txt"),
+      mimetype: "text/plain",
+      text: tidy(text),
+      attributes: { ...doc.attributes, ...(title ? { title: title.trim().slice(0, 512) } : {}) },
+    };
+  },
+});
+
+// Prose only: line-based boilerplate detection would eat repeated lines of source code or JSON
+const PROSE_EXTENSIONS = [".txt", ".md", ".markdown", ".html", ".htm"];
+
+// Page-number lines: "12", "Page 3", "3 / 10", "Page 3 of 10"
+const PAGE_NUMBER_LINE = /^(page\s+)?\d+(\s*(of|\/)\s*\d+)?$/i;
+
+export const stripBoilerplateProcessor = defineProcessor({
+  name: "strip_boilerplate",
+  description:
+    "Removes short lines repeated at least `minRepeats` times (page headers/footers), page-number lines and lines matching `patterns`.",
+  optionsSchema: z.object({
+    minRepeats: z.number().int().min(2).default(3),
+    // Longer lines are content even when repeated
+    maxLineLength: z.number().int().min(1).default(120),
+    pageNumbers: z.boolean().default(true),
+    // Case-insensitive regular expressions, matched against each trimmed line
+    patterns: z.array(regexPattern("i")).max(50).default([]),
+  }),
+  accepts: (doc) => PROSE_EXTENSIONS.includes(extension(doc)) || ["text/plain", "text/markdown", "text/html"].includes(baseMime(doc)),
+  process(doc, { minRepeats, maxLineLength, pageNumbers, patterns }) {
+    const lines = doc.text.split("\n");
+    const key = (line: string) => line.trim().replace(/\s+/g, " ").toLowerCase();
+    const counts = new Map<string, number>();
+    for (const line of lines) {
+      // Blank lines and punctuation-only lines are structure, not boilerplate
+      if (/[a-z0-9]/i.test(line) && line.trim().length <= maxLineLength) counts.set(key(line), (counts.get(key(line)) || 0) + 1);
+    }
+    const regexes = [...(pageNumbers ? [PAGE_NUMBER_LINE] : []), ...patterns.map((p) => new RegExp(p, "i"))];
+
+    const kept = lines.filter((line) => (counts.get(key(line)) || 0) < minRepeats && !regexes.some((r) => r.test(line.trim())));
+    return { ...doc, text: tidy(kept.join("\n")) };
+  },
+});
+
+const PII_PATTERNS = {
+  email: /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi,
+  credit_card: /(?<![\w-])\d(?:[ -]?\d){12,18}(?![\w-])/g,
+  phone: /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{1,4}(?:[ .-]?\d{2,4}){1,5}(?!\w)/g,
+  ip: /(?<![\w.])(?:\d{1,3}\.){3}\d{1,3}(?![\w.])/g,
+};
+type PiiKind = keyof typeof PII_PATTERNS;
+
+function luhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) d = d * 2 > 9 ? d * 2 - 9 : d * 2;
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+// Filters out numbers the patterns over-match (dates, short numbers, invalid card numbers)
+const PII_CHECKS: Partial<Record<PiiKind, (match: string) => boolean>> = {
+  credit_card: (m) => luhn(m.replace(/\D/g, "")),
+  phone: (m) => {
+    const digits = m.replace(/\D/g, "").length;
+    const isDate = /^\d{4}[./-]\d{1,2}[./-]\d{1,2}$|^\d{1,2}[./-]\d{1,2}[./-]\d{4}$/.test(m);
+    // International prefix, area code in parentheses, or at least two separators (bare digit runs are ids, not phones)
+    const looksLikePhone = /^[+(]/.test(m) || (m.match(/[ .-]/g) || []).length >= 2;
+    return digits >= 8 && digits <= 15 && !isDate && looksLikePhone;
+  },
+  ip: (m) => m.split(".").every((n) => Number(n) <= 255),
+};
+
+// Default custom patterns: PREPROCESS_REDACT_PATTERNS (JSON array of regular expressions; invalid ones are ignored)
+function configuredPatterns(): string[] {
+  try {
+    const parsed = JSON.parse(process.env.PREPROCESS_REDACT_PATTERNS || "[]");
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter((p): p is string => {
+      if (typeof p !== "string") return false;
+      const problem = p.length > PATTERN_MAX_CHARS ? "too long" : regexProblem(p, "g");
+      if (problem) console.warn(`⚠️ [PREPROCESS] PREPROCESS_REDACT_PATTERNS entry ignored (${problem})`);
+      return !problem;
+    });
+  } catch {
+    console.warn("⚠️ [PREPROCESS] PREPROCESS_REDACT_PATTERNS is not a JSON array; ignored");
+    return [];
+  }
+}
+
+export const redactPiiProcessor = defineProcessor({
+  name: "redact_pii",
+  description: "Replaces e-mail addresses, phone numbers, card numbers, IP addresses and custom patterns; sets the `redactions` count.",
+  optionsSchema: z.object({
+    kinds: z.array(z.enum(["email", "phone", "credit_card", "ip"])).default(["email", "phone"]),
+    // Case-sensitive regular expressions (defaults to PREPROCESS_REDACT_PATTERNS)
+    patterns: z.array(regexPattern("g")).max(50).default(configuredPatterns),
+    replacement: z.string().max(64).default("[REDACTED]"),
+  }),
+  process(doc, { kinds, patterns, replacement }) {
+    let redactions = 0;
+    let text = doc.text;
+    const replace = (regex: RegExp, check?: (match: string) => boolean) => {
+      text = text.replace(regex, (match) => {
+        if (check && !check(match)) return match;
+        redactions++;
+        return replacement;
+      });
+    };
+
+    // Card numbers before phone numbers, which would match parts of them
+    for (const kind of ["email", "credit_card", "phone", "ip"] as PiiKind[]) {
+      if (kinds.includes(kind)) replace(new RegExp(PII_PATTERNS[kind]), PII_CHECKS[kind]);
+    }
+    for (const pattern of patterns) replace(new RegExp(pattern, "g"));
+
+    const previous = typeof doc.attributes.redactions === "number" ? doc.attributes.redactions : 0;
+    return { ...doc, text, attributes: { ...doc.attributes, redactions: previous + redactions } };
+  },
+});
+
+export const splitSectionsProcessor = defineProcessor({
+  name: "split_sections",
+  description:
+    "Splits documents longer than `maxChars` into separate files at headings or paragraph breaks; sets `section`, `sections` and `section_title`.",
+  optionsSchema: z.object({
+    maxChars: z.number().int().min(1000).default(50000),
+  }),
+  process(doc, { maxChars }) {
+    if (doc.text.length <= maxChars) return doc;
+
+    const sections: string[] = [];
+    let rest = doc.text;
+    while (rest.length > maxChars) {
+      const window = rest.slice(0, maxChars);
+      // Prefer a heading, then a blank line, then a line break in the second half of the window
+      const cut = [/\n(?=#{1,6}\s)/g, /\n\s*\n/g, /\n/g]
+        .map((boundary) => Math.max(...Array.from(window.matchAll(boundary), (m) => m.index!)))
+        .find((index) => index >= maxChars / 2);
+      const at = cut ?? maxChars;
+      sections.push(rest.slice(0, at).trim());
+      rest = rest.slice(at);
+    }
+    if (rest.trim()) sections.push(rest.trim());
+
+    const ext = path.extname(doc.filename);
+    const width = Math.max(2, String(sections.length).length);
+    return sections.map((text, i) => {
+      const heading = text.match(/^#{1,6}\s+(.+)$/m)?.[1]?.trim();
+      return {
+        ...doc,
+        filename: `${renamed(doc.filename, "")}.part-${String(i + 1).padStart(width, "0")}${ext}`,
+        text,
+        attributes: {
+          ...doc.attributes,
+          section: i + 1,
+          sections: sections.length,
+          ...(heading ? { section_title: heading.slice(0, 512) } : {}),
+        },
+      };
+    });
+  },
+});
+
+export const textStatsProcessor = defineProcessor({
+  name: "text_stats",
+  description: "Sets `word_count` and `char_count` attributes from the processed text.",
+  optionsSchema: z.object({}),
+  process(doc) {
+    const words = doc.text.match(/\S+/g)?.length ?? 0;
+    return { ...doc, attributes: { ...doc.attributes, word_count: words, char_count: doc.text.length } };
+  },
+});
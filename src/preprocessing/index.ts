@@ -0,0 +1,21 @@
+import {
+  htmlToTextProcessor,
+  markdownToTextProcessor,
+  redactPiiProcessor,
+  splitSectionsProcessor,
+  stripBoilerplateProcessor,
+  textStatsProcessor,
+} from "./builtin";
+import { registerProcessor } from "./registry";
+
+// Built-in processors
+registerProcessor(htmlToTextProcessor);
+registerProcessor(markdownToTextProcessor);
+registerProcessor(stripBoilerplateProcessor);
+registerProcessor(redactPiiProcessor);
+registerProcessor(splitSectionsProcessor);
+registerProcessor(textStatsProcessor);
+
+export * from "./registry";
+export * from "./types";
+export * from "./pipeline";
@@ -0,0 +1,90 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import type { UploadedFile } from "../services/ingestion";
+import { getProcessor, hasProcessor } from "./registry";
+import type { PreprocessStep, TextDocument } from "./types";
+
+/**
+ * Preprocessing pipeline for uploads
+ * - `preprocess` lists processor names or { name, options }, applied in order
+ * - Only text files are processed (binary formats such as PDF/DOCX pass through unchanged); a processor
+ *   only sees the documents it accepts
+ * - A processor may split a document; derived attributes are merged under the file's own attributes
+ */
+const StepSchema = z.union([
+  z.string().min(1).transform((name) => ({ name, options: {} as Record<string, unknown> })),
+  z.object({ name: z.string().min(1), options: z.record(z.unknown()).default({}) }).strict(),
+]);
+
+// `preprocess` upload field: JSON array (multipart) or array (JSON body); names may also be comma-separated
+export const PreprocessStepsSchema = z
+  .preprocess((value) => {
+    if (typeof value !== "string") return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.split(",").map((name) => name.trim()).filter(Boolean);
+    }
+  }, z.array(StepSchema).max(20))
+  .transform((steps, ctx): PreprocessStep[] =>
+    steps.map((step, i) => {
+      if (!hasProcessor(step.name)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [i, "name"], message: `Unknown processor: ${step.name}` });
+        return step;
+      }
+      const options = getProcessor(step.name).optionsSchema.safeParse(step.options);
+      if (!options.success) {
+        options.error.issues.forEach((issue) => ctx.addIssue({ ...issue, path: [i, "options", ...issue.path] }));
+        return step;
+      }
+      return { name: step.name, options: options.data };
+    })
+  );
+
+// Document formats that are not text (the remaining document upload types are)
+const BINARY_EXTENSIONS = [".pdf", ".doc", ".docx", ".pptx"];
+
+export function isTextFile(file: UploadedFile): boolean {
+  const ext = path.extname(file.originalname).toLowerCase();
+  const mime = (file.mimetype || "").split(";")[0].trim().toLowerCase();
+  if (BINARY_EXTENSIONS.includes(ext)) return false;
+  return ext !== "" || mime.startsWith("text/") || mime === "application/json";
+}
+
+/**
+ * Run the steps over one text document.
+ */
+export function runPipeline(doc: TextDocument, steps: PreprocessStep[]): TextDocument[] {
+  return steps.reduce((docs, step) => {
+    const processor = getProcessor(step.name);
+    return docs.flatMap((d) => (processor.accepts && !processor.accepts(d) ? [d] : [processor.process(d, step.options)].flat()));
+  }, [doc]);
+}
+
+/**
+ * Preprocess uploaded files; returns the files to upload (text files may become several).
+ */
+export async function preprocessFiles(files: UploadedFile[], steps: PreprocessStep[]): Promise<UploadedFile[]> {
+  if (steps.length === 0) return files;
+
+  const processed = await Promise.all(
+    files.map(async (file) => {
+      if (!isTextFile(file)) return [file];
+      const buffer = file.buffer ?? (await fs.promises.readFile(file.path!));
+      const docs = runPipeline({ filename: file.originalname, mimetype: file.mimetype, text: buffer.toString("utf8"), attributes: {} }, steps);
+      return docs.map(
+        (doc): UploadedFile => ({
+          buffer: Buffer.from(doc.text, "utf8"),
+          originalname: doc.filename,
+          mimetype: doc.mimetype,
+          attributes: { ...doc.attributes, ...file.attributes },
+        })
+      );
+    })
+  );
+
+  const output = processed.flat();
+  console.log(`🧹 [PREPROCESS] ${steps.map((s) => s.name).join(" → ")}: ${files.length} file(s) in, ${output.length} out`);
+  return output;
+}
@@ -0,0 +1,46 @@
+import { zodToJsonSchema } from "zod-to-json-schema";
+import type { ProcessorDefinition } from "./types";
+
+/**
+ * Runtime preprocessor registry
+ * - Processors are declared with a zod options schema and a synchronous text transform (see defineProcessor)
+ * - Upload requests select processors by name (`preprocess` field, see pipeline.ts)
+ */
+const processors = new Map<string, ProcessorDefinition>();
+
+export function defineProcessor<Schema extends ProcessorDefinition["optionsSchema"]>(
+  processor: ProcessorDefinition<Schema>
+): ProcessorDefinition<Schema> {
+  return processor;
+}
+
+export function registerProcessor(processor: ProcessorDefinition<any>, { replace = false }: { replace?: boolean } = {}): void {
+  if (processors.has(processor.name) && !replace) {
+    throw new Error(`Processor already registered: ${processor.name}`);
+  }
+  processors.set(processor.name, processor);
+}
+
+export function unregisterProcessor(name: string): boolean {
+  return processors.delete(name);
+}
+
+export function hasProcessor(name: string): boolean {
+  return processors.has(name);
+}
+
+export function getProcessor(name: string): ProcessorDefinition {
+  const processor = processors.get(name);
+  if (!processor) {
+    throw new Error(`Unknown processor: ${name}`);
+  }
+  return processor;
+}
+
+export function listProcessors(): Array<{ name: string; description: string; options: unknown }> {
+  return Array.from(processors.values()).map(({ name, description, optionsSchema }) => ({
+    name,
+    description,
+    options: zodToJsonSchema(optionsSchema as any),
+  }));
+}
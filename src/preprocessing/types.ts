@@ -0,0 +1,28 @@
+import { z } from "zod";
+import type { FileAttributes } from "../services/fileSearch";
+
+// A text document moving through the pipeline
+export type TextDocument = {
+  filename: string;
+  mimetype?: string;
+  text: string;
+  // Derived attributes, merged into the vector store file attributes
+  attributes: FileAttributes;
+};
+
+export interface ProcessorDefinition<Schema extends z.ZodTypeAny = z.ZodTypeAny> {
+  readonly name: string;
+  readonly description: string;
+  // Options schema; every option needs a default so a processor can be selected by name alone
+  readonly optionsSchema: Schema;
+  // Which documents the processor handles; others pass through unchanged
+  accepts?(doc: TextDocument): boolean;
+  // Returns the processed document, or several (e.g. sections of a large file)
+  process(doc: TextDocument, options: z.infer<Schema>): TextDocument | TextDocument[];
+}
+
+// One selected pipeline step with validated options
+export type PreprocessStep = {
+  name: string;
+  options: Record<string, unknown>;
+};
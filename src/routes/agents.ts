@@ -1,13 +1,17 @@
 import express from "express";
-import multer from "multer";
-import { supervisorAgent } from "../agents/supervisorAgent";
-import { ragAgent } from "../agents/ragAgent";
-import { directAgent } from "../agents/directAgent";
+import { supervisorAgent, getAgent, listAgents } from "../agents";
+import { listTools } from "../tools";
 import { RealtimeAudioService } from "../services/realtimeAudioService";
-import { v4 as uuidv4 } from "uuid";
+import type { Agent, AgentRunInput, AgentRunResult, AgentStreamEvent, AudioInput, SupervisorDecision } from "../agents/types";
+import type { Citation } from "../services/citations";
+import { CompactionResult, compactIfNeeded } from "../services/compaction";
+import { ConversationSession, openSession, recordSessionTurn, reportSessionError } from "../services/conversationManager";
+import type { CompactionEvent, ConversationTurn, NewTurn } from "../services/conversationStore";
+import { sseHeaders, sseWrite } from "./sse";
+import { AUDIO_UPLOADS, acceptUploads } from "./uploads";
 
 const router = express.Router();
-const upload = multer({ storage: multer.memoryStorage() });
+const audioUpload = acceptUploads(AUDIO_UPLOADS, "audio", "single");
 
 // Initialize realtime audio service
 const realtimeAudio = new RealtimeAudioService({
@@ -15,31 +19,128 @@ const realtimeAudio = new RealtimeAudioService({
 });
 
 // Helper functions
-function createConversation(): string {
-  return `conv_${uuidv4().replace(/-/g, "")}`;
+
+/**
+ * Open the request's conversation session, compacting its context first when it has grown past
+ * the thresholds (see services/compaction.ts).
+ */
+async function resolveSession(conversationId: unknown, previousResponseId?: string): Promise<CompactionResult> {
+  return compactIfNeeded(await openSession(conversationId, previousResponseId));
 }
 
-function getAgent(name: string) {
-  switch (name.toLowerCase()) {
-    case "supervisor":
-      return supervisorAgent;
-    case "rag":
-      return ragAgent;
-    case "direct":
-      return directAgent;
-    default:
-      throw new Error(`Unknown agent: ${name}`);
-  }
+// Response `raw` with the compaction that ran before the turn, if any
+function withCompaction(raw: any, compaction?: CompactionEvent): any {
+  return compaction ? { ...raw, compaction } : raw;
+}
+
+function turnUsage(usage: any): ConversationTurn["usage"] {
+  if (typeof usage?.input_tokens !== "number") return undefined;
+  const { input_tokens, output_tokens = 0, total_tokens = input_tokens + output_tokens } = usage;
+  return { input_tokens, output_tokens, total_tokens };
+}
+/**
+ * Append a finished turn to the local conversation store (see services/conversationStore.ts).
+ * Recording failures are logged; the answer is still returned.
+ */
+async function saveTurn(conversationId: string, turn: NewTurn): Promise<void> {
+  await recordSessionTurn(conversationId, turn).catch((err) =>
+    console.error(`⚠️ [AGENTS_ROUTE] Failed to record turn for ${conversationId}:`, err)
+  );
+}
+
+/**
+ * Turn record for a non-streaming run. `text` is the typed input, or the transcript when the
+ * route transcribed the audio itself (otherwise the supervisor's transcript is used).
+ */
+function resultTurn(
+  result: AgentRunResult,
+  agentName: string,
+  { audio, text, startedAt }: { audio: boolean; text?: string; startedAt: Date }
+): NewTurn {
+  const meta = result.raw?.supervisorMetadata;
+  const routing: SupervisorDecision | undefined = meta?.routingDecision;
+  const answeredBy = routing?.route ?? agentName;
+  return {
+    inputType: audio ? "audio" : "text",
+    ...(audio ? { transcript: text ?? meta?.transcript } : { input: text }),
+    ...(routing ? { routing } : {}),
+    agent: answeredBy,
+    ...(answeredBy !== agentName ? { via: agentName } : {}),
+    output: result.text,
+    ...(result.citations?.length ? { citations: result.citations } : {}),
+    responseId: result.raw?.id,
+    ...(turnUsage(result.raw?.usage) ? { usage: turnUsage(result.raw?.usage) } : {}),
+    startedAt: startedAt.toISOString(),
+    completedAt: new Date().toISOString(),
+  };
 }
 
+/**
+ * Check the request's params against the agent's params schema before anything runs;
+ * answers 400 with the issues (and returns false) when they do not match.
+ */
+function paramsOr400(res: express.Response, agent: Agent, params: unknown): boolean {
+  if (!agent.paramsSchema) return true;
+  const check = agent.paramsSchema.safeParse(params);
+  if (check.success) return true;
+  res.status(400).json({ error: `Invalid params for agent '${agent.name}'`, details: check.error.issues });
+  return false;
+}
+
+function parseParams(params: unknown): any {
+  return typeof params === "string"
+    ? (() => {
+        try {
+          return JSON.parse(params);
+        } catch {
+          return {};
+        }
+      })()
+    : params || {};
+}
+
+function parseVectorStoreIds(vectorStoreIds: unknown): string[] | undefined {
+  return Array.isArray(vectorStoreIds)
+    ? vectorStoreIds
+    : typeof vectorStoreIds === "string"
+    ? (() => {
+        try {
+          const parsed = JSON.parse(vectorStoreIds);
+          return Array.isArray(parsed)
+            ? parsed
+            : vectorStoreIds
+                .split(",")
+                .map((s: string) => s.trim())
+                .filter(Boolean);
+        } catch {
+          return vectorStoreIds
+            .split(",")
+            .map((s: string) => s.trim())
+            .filter(Boolean);
+        }
+      })()
+    : undefined;
+}
+
+/**
+ * GET /agents
+ * Lists registered agents with their capabilities and accepted params (JSON schema),
+ * plus the function tools agents can enable via `params.functions`.
+ */
+router.get("/", (_req, res) => {
+  res.json({ agents: listAgents(), tools: listTools() });
+});
+
 /**
  * POST /agents/supervisor
  * Enhanced with audio support using the new supervisor agent
  * Body: {
  *   input: string,
- *   conversationId?: string,            // if omitted, a new id is generated
+ *   conversationId?: string,            // if omitted, a new conversation is started
+ *   previousResponseId?: string,        // optional: chain point when conversations are unavailable
  *   vectorStoreIds?: string[],          // optional: used by RAG agent
- *   params?: Record<string, unknown>    // optional: extra params to pass through
+ *   targetAgent?: string,               // optional: skip routing and run this agent (400 if unknown)
+ *   params?: Record<string, unknown>    // optional: agent params, checked against the (target) agent's params schema (400 otherwise)
  * }
  *
  * Returns: {
@@ -48,12 +149,14 @@ function getAgent(name: string) {
  *   raw: any
  * }
  */
-router.post("/supervisor", upload.single("audio"), async (req, res) => {
+router.post("/supervisor", audioUpload, async (req, res) => {
   console.log('🚀 [AGENTS_ROUTE] POST /agents/supervisor - Request received');
   
+  let session: ConversationSession | undefined;
   try {
-    const { input, conversationId, vectorStoreIds, params, targetAgent } = req.body || {};
+    const { input, conversationId, previousResponseId, vectorStoreIds, params, targetAgent } = req.body || {};
     const file = (req as any).file as any;
+    const startedAt = new Date();
     
     console.log('📊 [AGENTS_ROUTE] Request details:', {
       hasTextInput: !!input,
@@ -65,44 +168,23 @@ router.post("/supervisor", upload.single("audio"), async (req, res) => {
       targetAgent
     });
 
-    const parsedParams: any =
-      typeof params === "string"
-        ? (() => {
-            try {
-              return JSON.parse(params);
-            } catch {
-              return {};
-            }
-          })()
-        : params || {};
-    const vsIds: string[] | undefined = Array.isArray(vectorStoreIds)
-      ? vectorStoreIds
-      : typeof vectorStoreIds === "string"
-      ? (() => {
-          try {
-            const parsed = JSON.parse(vectorStoreIds);
-            return Array.isArray(parsed)
-              ? parsed
-              : vectorStoreIds
-                  .split(",")
-                  .map((s: string) => s.trim())
-                  .filter(Boolean);
-          } catch {
-            return vectorStoreIds
-              .split(",")
-              .map((s: string) => s.trim())
-              .filter(Boolean);
-          }
-        })()
-      : undefined;
-
-    let convId: string = conversationId;
-    if (!convId || typeof convId !== "string" || !convId.startsWith("conv_")) {
-      convId = createConversation();
-      console.log(`✅ [AGENTS_ROUTE] Created new conversation: ${convId}`);
-    } else {
-      console.log(`🔄 [AGENTS_ROUTE] Using existing conversation: ${convId}`);
+    const parsedParams: any = parseParams(params);
+    const vsIds = parseVectorStoreIds(vectorStoreIds);
+    // If caller specifies a target agent, route directly; otherwise let supervisor decide
+    let routedAgent: Agent = supervisorAgent;
+    if (targetAgent) {
+      try {
+        routedAgent = getAgent(targetAgent);
+      } catch {
+        return res.status(400).json({ error: `Unknown agent '${targetAgent}'` });
+      }
     }
+    if (!paramsOr400(res, routedAgent, { ...parsedParams, vectorStoreIds: vsIds })) return;
+
+    const resolved = await resolveSession(conversationId, previousResponseId);
+    session = resolved.session;
+    const convId = session.id;
+    console.log(`🔄 [AGENTS_ROUTE] Conversation ${convId} (${session.mode}${session.refreshed ? ", refreshed" : ""})`);
 
     // Prepare input for enhanced supervisor agent
     let supervisorInput: any;
@@ -131,15 +213,16 @@ router.post("/supervisor", upload.single("audio"), async (req, res) => {
       return res.status(400).json({ error: "No input provided (text or audio)" });
     }
 
-    // If caller specifies a target agent, route directly; otherwise let supervisor decide
     let agentNameUsed = "supervisor";
     let result;
+    // Transcript when the route transcribes audio itself (direct routing)
+    let transcript: string | undefined;
     
     if (targetAgent) {
       console.log(`🎯 [AGENTS_ROUTE] Routing directly to ${targetAgent} agent`);
       try {
-        const agent = getAgent(targetAgent);
-        agentNameUsed = targetAgent;
+        const agent = routedAgent;
+        agentNameUsed = agent.name;
         
         // For direct agent routing, we need to handle audio differently
         // since sub-agents only accept string inputs
@@ -147,7 +230,7 @@ router.post("/supervisor", upload.single("audio"), async (req, res) => {
         if (typeof supervisorInput === 'object' && supervisorInput.type === 'audio') {
           console.log('🔄 [AGENTS_ROUTE] Converting audio to text for direct agent routing');
           try {
-            const transcript = await realtimeAudio.transcribeAudio(
+            transcript = await realtimeAudio.transcribeAudio(
               supervisorInput.audioBuffer,
               supervisorInput.mimeType
             );
@@ -162,18 +245,21 @@ router.post("/supervisor", upload.single("audio"), async (req, res) => {
         }
         
         result = await agent.run({
-          conversationId: convId,
+          conversationId: session.conversationId,
+          previousResponseId: session.previousResponseId,
           input: finalInput,
           params: { ...parsedParams, vectorStoreIds: vsIds },
         });
       } catch (e) {
+        reportSessionError(session, e);
         console.error('❌ [AGENTS_ROUTE] Direct agent dispatch failed:', e);
-        return res.status(400).json({ error: `Unknown or failed agent '${targetAgent}'` });
+        return res.status(500).json({ error: `Agent '${routedAgent.name}' request failed` });
       }
     } else {
       console.log('🧠 [AGENTS_ROUTE] Using enhanced supervisor agent for routing decision');
       result = await supervisorAgent.run({
-        conversationId: convId,
+        conversationId: session.conversationId,
+        previousResponseId: session.previousResponseId,
         input: supervisorInput,
         params: { ...parsedParams, vectorStoreIds: vsIds },
       });
@@ -185,7 +271,9 @@ router.post("/supervisor", upload.single("audio"), async (req, res) => {
       conversationId: convId,
       agent: agentNameUsed,
       text: result.text,
-      raw: result.raw,
+      ...(result.citations ? { citations: result.citations } : {}),
+      ...(result.chunks ? { chunks: result.chunks } : {}),
+      raw: withCompaction(result.raw, resolved.compaction),
       // Include audio processing metadata if available
       ...(result.raw?.supervisorMetadata?.audioTranscription?.audioProcessed && {
         audioProcessed: true,
@@ -194,6 +282,8 @@ router.post("/supervisor", upload.single("audio"), async (req, res) => {
       })
     };
 
+    await saveTurn(convId, resultTurn(result, agentNameUsed, { audio: !!file, text: file ? transcript : input, startedAt }));
+
     console.log('✅ [AGENTS_ROUTE] Request completed successfully');
     console.log('📝 [AGENTS_ROUTE] Response preview:', {
       conversationId: response.conversationId,
@@ -204,6 +294,7 @@ router.post("/supervisor", upload.single("audio"), async (req, res) => {
 
     res.json(response);
   } catch (err) {
+    if (session) reportSessionError(session, err);
     console.error('❌ [AGENTS_ROUTE] Request failed:', err);
     console.error('❌ [AGENTS_ROUTE] Error details:', {
       message: err instanceof Error ? err.message : 'Unknown error',
@@ -218,150 +309,278 @@ router.post("/supervisor", upload.single("audio"), async (req, res) => {
  * POST /agents/supervisor/stream
  * - Supports text or multipart (audio) similar to /agents/supervisor
  * - Streams incremental model output as SSE events
+ * - Keeps context via `conversationId` like the JSON endpoint; `previousResponseId`
+ *   (from a previous `final` event) is used when no conversation is available
  *
  * Events:
- *  - conversation: { conversationId }
+ *  - conversation: { conversationId, mode: "conversation" | "chained", refreshed? }
+ *  - compaction:   { id, reason, summarizedTurns, keptTurns, summary, ... }   (context compacted before this turn)
  *  - transcript:   { text }
- *  - routing:      { route, query }
+ *  - routing:      { route, query, confidence, reason }
+ *  - fanout:       { branches: [{ label, agent }] }      (fan-out mode)
+ *  - branch:       { label, agent, ok, durationMs, text?, error? }  (fan-out mode)
  *  - text_delta:   { text }
- *  - final:        { conversationId, agent, text, raw }
- *  - error:        { error }
+ *  - tool_call:    { tool, itemId, status }
+ *  - usage:        { input_tokens, output_tokens, total_tokens }
+ *  - final:        { conversationId, agent, text, responseId, citations?, chunks?, raw }
+ *  - error:        { error, code? }
  *  - done:         {}
  */
-function sseWrite(res: express.Response, event: string | null, data: any) {
-  try {
-    if (event) res.write(`event: ${event}\n`);
-    res.write(`data: ${JSON.stringify(data)}\n\n`);
-  } catch {
-    // ignore write errors (client disconnected)
+// What a stream produced, for the conversation store
+type StreamOutcome = {
+  transcript?: string;
+  routing?: SupervisorDecision;
+  text: string;
+  citations?: Citation[];
+  responseId?: string;
+  usage?: ConversationTurn["usage"];
+  error?: string;
+};
+
+async function sseForward(
+  res: express.Response,
+  stream: AsyncIterable<AgentStreamEvent>,
+  context: { conversationId: string; agent: string; compaction?: CompactionEvent },
+  outcome: StreamOutcome
+) {
+  const { compaction, ...fields } = context;
+  for await (const event of stream) {
+    if (event.type === "final") {
+      sseWrite(res, event.type, { ...fields, ...event.data, raw: withCompaction(event.data.raw, compaction) });
+      Object.assign(outcome, { text: event.data.text, citations: event.data.citations, responseId: event.data.responseId });
+    } else {
+      sseWrite(res, event.type, event.data);
+      if (event.type === "transcript") outcome.transcript = event.data.text;
+      if (event.type === "routing") outcome.routing = event.data;
+      if (event.type === "usage") outcome.usage = turnUsage(event.data);
+      if (event.type === "text_delta") outcome.text += event.data.text;
+      if (event.type === "error") outcome.error = event.data.error;
+    }
   }
 }
 
-router.post("/supervisor/stream", upload.single("audio"), async (req, res) => {
-  // Set SSE headers
-  res.setHeader("Content-Type", "text/event-stream");
-  res.setHeader("Cache-Control", "no-cache, no-transform");
-  res.setHeader("Connection", "keep-alive");
+function streamTurn(outcome: StreamOutcome, agentName: string, { text, startedAt }: { text?: string; startedAt: Date }): NewTurn {
+  const answeredBy = outcome.routing?.route ?? agentName;
+  return {
+    inputType: text === undefined ? "audio" : "text",
+    ...(text === undefined ? { transcript: outcome.transcript } : { input: text }),
+    ...(outcome.routing ? { routing: outcome.routing } : {}),
+    agent: answeredBy,
+    ...(answeredBy !== agentName ? { via: agentName } : {}),
+    output: outcome.text,
+    ...(outcome.citations?.length ? { citations: outcome.citations } : {}),
+    ...(outcome.responseId ? { responseId: outcome.responseId } : {}),
+    ...(outcome.usage ? { usage: outcome.usage } : {}),
+    ...(outcome.error ? { error: outcome.error } : {}),
+    startedAt: startedAt.toISOString(),
+    completedAt: new Date().toISOString(),
+  };
+}
+
+router.post("/supervisor/stream", audioUpload, async (req, res) => {
+  const { targetAgent } = (req as any).body || {};
+  // If caller specifies a target agent, route directly; otherwise let supervisor decide
+  let agent: Agent = supervisorAgent;
+  if (targetAgent) {
+    try {
+      agent = getAgent(targetAgent);
+    } catch {
+      return res.status(400).json({ error: `Unknown agent '${targetAgent}'` });
+    }
+  }
+  await streamAgent(req, res, agent);
+});
+
+/**
+ * Stream any registered agent as SSE (shared by /supervisor/stream and /:name/stream).
+ * Invalid params are answered with a 400 JSON error before the event stream starts.
+ */
+async function streamAgent(req: express.Request, res: express.Response, agent: Agent) {
+  const { input, conversationId, previousResponseId, vectorStoreIds, params } = (req as any).body || {};
+  const agentParams = { ...parseParams(params), vectorStoreIds: parseVectorStoreIds(vectorStoreIds) };
+  if (!paramsOr400(res, agent, agentParams)) return;
 
-  // Flush initial padding for some proxies
-  res.write(":\n\n");
+  sseHeaders(res);
 
   try {
-    const { input, conversationId, vectorStoreIds, params, targetAgent } = (req as any).body || {};
-    const parsedParams: any =
-      typeof params === "string"
-        ? (() => {
-            try {
-              return JSON.parse(params);
-            } catch {
-              return {};
-            }
-          })()
-        : params || {};
-    const vsIds: string[] | undefined = Array.isArray(vectorStoreIds)
-      ? vectorStoreIds
-      : typeof vectorStoreIds === "string"
-      ? (() => {
-          try {
-            const parsed = JSON.parse(vectorStoreIds);
-            return Array.isArray(parsed)
-              ? parsed
-              : vectorStoreIds
-                  .split(",")
-                  .map((s: string) => s.trim())
-                  .filter(Boolean);
-          } catch {
-            return vectorStoreIds
-              .split(",")
-              .map((s: string) => s.trim())
-              .filter(Boolean);
-          }
-        })()
-      : undefined;
-
-    let convId: string = conversationId;
-    if (!convId || typeof convId !== "string" || !convId.startsWith("conv_")) {
-      convId = createConversation();
-    }
-    sseWrite(res, "conversation", { conversationId: convId });
+    const { session, compaction } = await resolveSession(conversationId, previousResponseId);
+    const convId = session.id;
+    sseWrite(res, "conversation", {
+      conversationId: convId,
+      mode: session.mode,
+      ...(session.refreshed ? { refreshed: true } : {}),
+    });
+    if (compaction) sseWrite(res, "compaction", compaction);
 
-    // If audio file provided, use realtime audio service for processing
     const file = (req as any).file as any;
-    let finalInput: string;
+    const startedAt = new Date();
+    const outcome: StreamOutcome = { text: "" };
 
+    let agentInput: AgentRunInput["input"];
     if (file) {
       try {
-        // Process audio with realtime service
-        const { transcript, responseStream } = await realtimeAudio.processAudio(
-          file.buffer,
-          file.mimetype || "audio/webm",
-          {
-            conversationId: convId,
-            vectorStoreIds: vsIds,
-          }
-        );
-
-        // Send transcript event
-        sseWrite(res, "transcript", { text: transcript });
-
-        // Stream the response
-        for await (const event of responseStream) {
-          sseWrite(res, event.type, event.data);
-        }
-
-        sseWrite(res, "done", {});
-        return res.end();
+        agentInput = await prepareAudioInput(agent, file);
       } catch (e) {
         console.error("Audio processing failed:", e);
         sseWrite(res, "error", { error: "Audio processing failed" });
         return res.end();
       }
+      // Agents that accept audio transcribe and emit the transcript event themselves
+      if (typeof agentInput === "string") {
+        sseWrite(res, "transcript", { text: agentInput });
+        outcome.transcript = agentInput;
+      }
+    } else if (input) {
+      agentInput = input;
     } else {
-      finalInput = input;
-    }
-
-    if (!finalInput) {
       sseWrite(res, "error", { error: "No input provided (text or audio)" });
       return res.end();
     }
 
-    // Process text input with realtime service
+    let failed = false;
     try {
-      const responseStream = await realtimeAudio.processTextWithContext(finalInput, {
-        conversationId: convId,
-        vectorStoreIds: vsIds,
-      });
-
-      // Stream the response
-      for await (const event of responseStream) {
-        sseWrite(res, event.type, event.data);
-      }
-
-      sseWrite(res, "done", {});
-      res.end();
+      await sseForward(
+        res,
+        agent.stream({
+          conversationId: session.conversationId,
+          previousResponseId: session.previousResponseId,
+          input: agentInput,
+          params: agentParams,
+        }),
+        { conversationId: convId, agent: agent.name, compaction },
+        outcome
+      );
     } catch (err) {
-      console.error("Text processing failed:", err);
-      sseWrite(res, "error", { error: "Text processing failed" });
-      res.end();
+      console.error("Agent streaming failed:", err);
+      reportSessionError(session, err);
+      failed = true;
+      outcome.error = `Agent '${agent.name}' streaming failed`;
+      sseWrite(res, "error", { error: outcome.error });
     }
+    // Recorded before `done` so the history is current when the client sees it;
+    // failed streams are recorded too, with the partial output and the error
+    await saveTurn(convId, streamTurn(outcome, agent.name, { text: file ? undefined : input, startedAt }));
+    if (!failed) sseWrite(res, "done", {});
+    res.end();
   } catch (err) {
     console.error(err);
-    sseWrite(res, "error", { error: "Supervisor agent streaming request failed" });
+    sseWrite(res, "error", { error: "Agent streaming request failed" });
     return res.end();
   }
-});
+}
+
+/**
+ * Build the agent input for an uploaded audio file.
+ * Agents that accept audio get an AudioInput; others get the Whisper transcript.
+ */
+async function prepareAudioInput(agent: Agent, file: any): Promise<AgentRunInput["input"]> {
+  const audioInput: AudioInput = {
+    type: "audio",
+    audioBuffer: file.buffer,
+    mimeType: file.mimetype || "audio/webm",
+  };
+  if (agent.capabilities?.inputTypes.includes("audio")) {
+    return audioInput;
+  }
+  return realtimeAudio.transcribeAudio(audioInput.audioBuffer, audioInput.mimeType);
+}
 
 /**
- * Create a new conversation id (conv_*) without making an LLM call.
+ * Start a new conversation session without making an LLM call (see services/conversationManager.ts).
  */
 router.get("/conversation/new", async (_req, res) => {
   try {
-    const id = createConversation();
-    res.json({ conversationId: id });
+    const session = await openSession();
+    res.json({ conversationId: session.id, mode: session.mode });
   } catch (e) {
     console.error("Failed to create conversation:", e);
     res.status(500).json({ error: "Failed to create conversation" });
   }
 });
 
+/**
+ * POST /agents/:name
+ * Invokes any registered agent (see GET /agents). Same body as /agents/supervisor
+ * (JSON or multipart with `audio`); `params` are validated against the agent's params schema.
+ *
+ * Returns: {
+ *   conversationId: string,
+ *   agent: string,
+ *   text: string,
+ *   raw: any
+ * }
+ */
+router.post("/:name", audioUpload, async (req, res) => {
+  let agent: Agent;
+  try {
+    agent = getAgent(req.params.name);
+  } catch {
+    return res.status(404).json({ error: `Unknown agent '${req.params.name}'` });
+  }
+
+  let session: ConversationSession | undefined;
+  try {
+    const { input, conversationId, previousResponseId, vectorStoreIds, params } = req.body || {};
+    const file = (req as any).file as any;
+    const agentParams = { ...parseParams(params), vectorStoreIds: parseVectorStoreIds(vectorStoreIds) };
+    const startedAt = new Date();
+
+    if (!paramsOr400(res, agent, agentParams)) return;
+
+    const resolved = await resolveSession(conversationId, previousResponseId);
+    session = resolved.session;
+    const convId = session.id;
+
+    let agentInput: AgentRunInput["input"];
+    if (file) {
+      try {
+        agentInput = await prepareAudioInput(agent, file);
+      } catch (e) {
+        console.error('❌ [AGENTS_ROUTE] Audio transcription failed:', e);
+        return res.status(400).json({ error: "Audio transcription failed" });
+      }
+    } else if (input) {
+      agentInput = input;
+    } else {
+      return res.status(400).json({ error: "No input provided (text or audio)" });
+    }
+
+    const result = await agent.run({
+      conversationId: session.conversationId,
+      previousResponseId: session.previousResponseId,
+      input: agentInput,
+      params: agentParams,
+    });
+    const text = typeof agentInput === "string" ? agentInput : undefined;
+    await saveTurn(convId, resultTurn(result, agent.name, { audio: !!file, text, startedAt }));
+
+    res.json({
+      conversationId: convId,
+      agent: agent.name,
+      text: result.text,
+      ...(result.citations ? { citations: result.citations } : {}),
+      ...(result.chunks ? { chunks: result.chunks } : {}),
+      raw: withCompaction(result.raw, resolved.compaction),
+    });
+  } catch (err) {
+    if (session) reportSessionError(session, err);
+    console.error(`❌ [AGENTS_ROUTE] Agent '${agent.name}' request failed:`, err);
+    res.status(500).json({ error: `Agent '${agent.name}' request failed` });
+  }
+});
+
+/**
+ * POST /agents/:name/stream
+ * SSE variant of POST /agents/:name (same events as /agents/supervisor/stream).
+ */
+router.post("/:name/stream", audioUpload, async (req, res) => {
+  let agent: Agent;
+  try {
+    agent = getAgent(req.params.name);
+  } catch {
+    return res.status(404).json({ error: `Unknown agent '${req.params.name}'` });
+  }
+  await streamAgent(req, res, agent);
+});
+
 export default router;
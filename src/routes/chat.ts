@@ -1,5 +1,7 @@
 import express from "express";
 import { chatWithResponsesApi } from "../clients/azureOpenAI";
+import { fileSearchInclude, fileSearchTool, FileSearchOptionsSchema } from "../services/fileSearch";
+import { parseOr400, sendOpenAIError } from "./errors";
 
 const router = express.Router();
 
@@ -8,37 +10,46 @@ const router = express.Router();
  * Body: {
  *   threadId: string,            // optional: your own session id
  *   vectorStoreId: string,       // optional: if provided, we pass as file_search tool
+ *   vectorStoreIds: string[],    // optional: several stores for file_search
+ *   filters: object,             // optional: attribute filter ({ type: "eq", key, value } / { type: "and", filters })
+ *   maxNumResults: number,       // optional: 1-50
+ *   rankingOptions: { ranker?, scoreThreshold? },  // optional
+ *   includeChunks: boolean,      // optional: include the retrieved chunks (file_search_call.results) in the response
  *   previousResponseId: string,  // optional: for context
  *   input: string | object       // user input (string or array per Responses API)
  * }
  */
 router.post("/", async (req, res) => {
   try {
-    const { vectorStoreId, previousResponseId, input } = req.body;
+    const { vectorStoreId, vectorStoreIds, previousResponseId, input } = req.body;
 
     if (!input) {
       return res.status(400).json({ error: "input is required" });
     }
 
-    const tools = vectorStoreId
-      ? [
-          {
-            type: "file_search",
-            vector_store_ids: [vectorStoreId],
-          },
-        ]
-      : undefined;
+    const retrieval = parseOr400(res, FileSearchOptionsSchema, req.body, "Invalid file_search options");
+    if (!retrieval) return;
+
+    const storeIds: string[] = [
+      ...(vectorStoreId ? [vectorStoreId] : []),
+      ...(Array.isArray(vectorStoreIds) ? vectorStoreIds : []),
+    ];
+    if (storeIds.length === 0 && (retrieval.filters || retrieval.maxNumResults || retrieval.rankingOptions || retrieval.includeChunks)) {
+      return res.status(400).json({ error: "file_search options require vectorStoreId or vectorStoreIds" });
+    }
+
+    const tools = storeIds.length ? [fileSearchTool(storeIds, retrieval)] : undefined;
 
     const response = await chatWithResponsesApi({
       input,
       previousResponseId,
       tools,
+      ...fileSearchInclude(retrieval),
     });
 
     res.json(response);
   } catch (err) {
-    console.error(err);
-    res.status(500).json({ error: "Chat request failed" });
+    sendOpenAIError(res, err, "Chat request failed");
   }
 });
 
@@ -0,0 +1,158 @@
+import express from "express";
+import { z } from "zod";
+import { compactIfNeeded } from "../services/compaction";
+import { openSession, seedSession, turnMessages } from "../services/conversationManager";
+import { deleteConversation, getConversation, importTurns, listConversations } from "../services/conversationStore";
+import {
+  ConversationImportSchema,
+  conversationMarkdown,
+  exportConversation,
+  importedTurns,
+} from "../services/conversationExport";
+import { ListQuerySchema, parseOr400 } from "./errors";
+
+const router = express.Router();
+
+/**
+ * GET /conversations?after=&before=&limit=&order=
+ * Stored conversations (summaries: title, timestamps, turnCount, lastAgent, preview), most recent first.
+ */
+router.get("/", async (req, res) => {
+  const query = parseOr400(res, ListQuerySchema, req.query, "Invalid pagination parameters");
+  if (!query) return;
+  try {
+    res.json(await listConversations(query));
+  } catch (err) {
+    console.error("❌ Failed to list conversations:", err);
+    res.status(500).json({ error: "Failed to list conversations" });
+  }
+});
+
+/**
+ * POST /conversations/import
+ * Body: a JSON export (GET /conversations/:id/export) or { title?, turns: [{ input | transcript, output, ... }] }.
+ * Starts a new conversation with those turns in its history and in the agents' context,
+ * so the next agent request with the returned conversationId continues from them.
+ */
+router.post("/import", async (req, res) => {
+  const body = parseOr400(res, ConversationImportSchema, req.body, "Invalid conversation import");
+  if (!body) return;
+  const { source, turns } = importedTurns(body);
+
+  let conversationId: string | undefined;
+  try {
+    const session = await openSession();
+    conversationId = session.id;
+    const record = await importTurns(session.id, turns, {
+      title: source.title,
+      importedFrom: {
+        ...(source.id ? { id: source.id } : {}),
+        ...("exportedAt" in body && body.exportedAt ? { exportedAt: body.exportedAt } : {}),
+        importedAt: new Date().toISOString(),
+      },
+    });
+    const messages = turnMessages(turns);
+    const seeded = await seedSession(session, messages);
+    res.status(201).json({
+      conversationId: seeded.id,
+      mode: seeded.mode,
+      title: record.title,
+      turnCount: record.turns.length,
+      seededMessages: messages.length,
+      ...(seeded.previousResponseId ? { previousResponseId: seeded.previousResponseId } : {}),
+    });
+  } catch (err) {
+    console.error("❌ Failed to import conversation:", err);
+    if (conversationId) await deleteConversation(conversationId).catch(() => undefined);
+    res.status(502).json({
+      error: "Failed to import conversation",
+      details: err instanceof Error ? err.message : String(err),
+    });
+  }
+});
+
+const ExportQuerySchema = z.object({
+  format: z.enum(["json", "markdown", "md"]).default("json"),
+});
+
+/**
+ * GET /conversations/:id/export?format=json|markdown
+ * Downloads the history (transcripts, routing decisions, citations, timestamps).
+ * The JSON export can be imported again with POST /conversations/import.
+ */
+router.get("/:id/export", async (req, res) => {
+  const query = parseOr400(res, ExportQuerySchema, req.query, "Invalid export parameters");
+  if (!query) return;
+  try {
+    const conversation = await getConversation(req.params.id);
+    if (!conversation) {
+      return res.status(404).json({ error: `Conversation not found: ${req.params.id}` });
+    }
+    if (query.format === "json") {
+      res.attachment(`${conversation.id}.json`);
+      return res.json(exportConversation(conversation));
+    }
+    res.attachment(`${conversation.id}.md`);
+    res.type("text/markdown; charset=utf-8").send(conversationMarkdown(conversation));
+  } catch (err) {
+    console.error("❌ Failed to export conversation:", err);
+    res.status(500).json({ error: "Failed to export conversation" });
+  }
+});
+
+/**
+ * POST /conversations/:id/compact
+ * Compacts the context now (rolling summary + last turns on a fresh backing), regardless of the thresholds.
+ * Returns { conversationId, compacted, compaction? }; compacted is false when there is nothing to summarize.
+ */
+router.post("/:id/compact", async (req, res) => {
+  try {
+    if (!(await getConversation(req.params.id))) {
+      return res.status(404).json({ error: `Conversation not found: ${req.params.id}` });
+    }
+    const { session, compaction } = await compactIfNeeded(await openSession(req.params.id), { force: true });
+    res.json({ conversationId: session.id, compacted: !!compaction, ...(compaction ? { compaction } : {}) });
+  } catch (err) {
+    console.error("❌ Failed to compact conversation:", err);
+    res.status(502).json({
+      error: "Failed to compact conversation",
+      details: err instanceof Error ? err.message : String(err),
+    });
+  }
+});
+
+/**
+ * GET /conversations/:id
+ * Full history: { id, title, createdAt, updatedAt, lastResponseId, turns: [...] }.
+ * Continue it by sending `conversationId` (and `previousResponseId` = lastResponseId) to the agent routes.
+ */
+router.get("/:id", async (req, res) => {
+  try {
+    const conversation = await getConversation(req.params.id);
+    if (!conversation) {
+      return res.status(404).json({ error: `Conversation not found: ${req.params.id}` });
+    }
+    res.json(conversation);
+  } catch (err) {
+    console.error("❌ Failed to read conversation:", err);
+    res.status(500).json({ error: "Failed to read conversation" });
+  }
+});
+
+/**
+ * DELETE /conversations/:id
+ * Deletes the local history only.
+ */
+router.delete("/:id", async (req, res) => {
+  try {
+    if (!(await deleteConversation(req.params.id))) {
+      return res.status(404).json({ error: `Conversation not found: ${req.params.id}` });
+    }
+    res.json({ id: req.params.id, deleted: true });
+  } catch (err) {
+    console.error("❌ Failed to delete conversation:", err);
+    res.status(500).json({ error: "Failed to delete conversation" });
+  }
+});
+
+export default router;
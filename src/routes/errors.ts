@@ -0,0 +1,42 @@
+import express from "express";
+import { z } from "zod";
+import { toOpenAIApiError } from "../clients/azureOpenAI";
+
+/**
+ * Shared error responses for routes backed by the OpenAI REST client.
+ * Body shape: { error, details?, code? } where `error` says what failed and `details` carries the upstream message.
+ */
+export function sendOpenAIError(res: express.Response, err: unknown, message: string) {
+  const apiError = toOpenAIApiError(err);
+  console.error(`❌ ${message} (${apiError.upstreamStatus ?? "no upstream status"}):`, apiError.message);
+  return res.status(apiError.status).json({
+    error: message,
+    details: apiError.message,
+    ...(apiError.code ? { code: apiError.code } : {}),
+  });
+}
+
+// Query parameters for paginated list endpoints (?after=&before=&limit=&order=)
+export const ListQuerySchema = z.object({
+  after: z.string().min(1).optional(),
+  before: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  order: z.enum(["asc", "desc"]).optional(),
+});
+
+/**
+ * Validate `schema` against `data`; on failure answer 400 and return undefined.
+ */
+export function parseOr400<T extends z.ZodTypeAny>(
+  res: express.Response,
+  schema: T,
+  data: unknown,
+  message: string
+): z.output<T> | undefined {
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) {
+    res.status(400).json({ error: message, details: parsed.error.issues });
+    return undefined;
+  }
+  return parsed.data;
+}
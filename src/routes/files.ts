@@ -1,61 +1,238 @@
 import express from "express";
-import multer from "multer";
-import FormData from "form-data";
+import fs from "fs";
 import {
-  addFileToVectorStore,
-  listVectorStoreFiles,
+  getVectorStoreFile,
+  getVectorStoreFileContent,
+  removeFileFromVectorStore,
+  deleteFile,
+  VectorStoreFileContent,
 } from "../clients/azureOpenAI";
-import openai from "../clients/azureOpenAI";
+import {
+  IngestionError,
+  UploadOptionsSchema,
+  startIngestion,
+  getIngestionStatus,
+  waitForIngestion,
+  watchIngestion,
+} from "../services/ingestion";
+import { forgetUpload } from "../services/uploadIndex";
+import {
+  BulkImportError,
+  BulkImportOptionsSchema,
+  ImportCandidate,
+  directoryCandidates,
+  planImport,
+  urlCandidates,
+  zipCandidates,
+} from "../services/bulkImport";
+import { parseOr400, sendOpenAIError } from "./errors";
+import { sseHeaders, sseWrite } from "./sse";
+import { ARCHIVE_UPLOADS, DOCUMENT_UPLOADS, acceptUploads } from "./uploads";
 
 const router = express.Router();
 
-// Multer setup – store in memory
-const upload = multer({ storage: multer.memoryStorage() });
-
 /**
- * POST /vector-stores/:id/files
- * Uploads one or more files, then attaches them to the vector store.
- * Returns the vector store file objects.
+ * POST /vector-stores/:id/files[?wait=true]
+ * Uploads one or more files and attaches them to the vector store as one file batch.
+ * Optional fields: attributes (JSON, applied to every file), fileAttributes (JSON, filename -> attributes),
+ * onDuplicate ("skip" | "replace" | "keep", default skip) for content already uploaded to this store,
+ * preprocess (processor names or { name, options }, see GET /vector-stores/preprocessors),
+ * chunking_strategy (JSON, overrides the store default for these files).
+ * Returns { jobId, uploadedFileIds, uploads, ingestion } where uploads reports per file whether it was
+ * uploaded, skipped, replaced or kept, and ingestion has per-file status.
+ * When every file was a skipped duplicate, jobId and ingestion are null.
+ * With wait=true the response is sent once every file is completed or failed
+ * (202 if ingestion is still running, e.g. after the wait timeout).
  */
-router.post("/:id/files", upload.array("files"), async (req, res) => {
+router.post("/:id/files", acceptUploads(DOCUMENT_UPLOADS, "files"), async (req, res) => {
   const { id: vectorStoreId } = req.params;
   const files = ((req as any).files as any[]) || [];
 
   if (!files || files.length === 0) {
     return res.status(400).json({ error: "No files uploaded" });
   }
+  const uploadOptions = parseOr400(res, UploadOptionsSchema, req.body, "Invalid upload options");
+  if (!uploadOptions) return;
+
+  try {
+    const { jobId, uploadedFileIds, uploads } = await startIngestion(vectorStoreId, files, uploadOptions);
+    if (!jobId) {
+      return res.json({ jobId: null, uploadedFileIds, uploads, ingestion: null });
+    }
+    const wait = req.query.wait === "true" || req.body?.wait === "true";
+    const ingestion = wait ? await waitForIngestion(vectorStoreId, jobId) : await getIngestionStatus(vectorStoreId, jobId);
+
+    res.status(ingestion.done ? 200 : 202).json({ jobId, uploadedFileIds, uploads, ingestion });
+  } catch (err) {
+    if (err instanceof IngestionError) {
+      return res.status(err.status).json({ error: err.message, details: err.details });
+    }
+    sendOpenAIError(res, err, "File upload failed");
+  }
+});
+
+/**
+ * POST /vector-stores/:id/import[?wait=true]
+ * Bulk import from exactly one source:
+ * - archive (multipart file) - ZIP archive
+ * - directory (text) - server directory inside IMPORT_ALLOWED_DIRS
+ * - url (text) - ZIP archive or document under an IMPORT_URL_ALLOWLIST prefix
+ * Optional: include / exclude (globs, JSON array or comma-separated), dryRun ("true"),
+ * attributes, onDuplicate, preprocess, chunking_strategy (see POST /vector-stores/:id/files). Each file gets its relative path as the `path` attribute.
+ * dryRun returns { dryRun: true, source, selected, skipped, totalBytes } without uploading;
+ * otherwise the upload response plus selected / skipped.
+ */
+router.post("/:id/import", acceptUploads(ARCHIVE_UPLOADS, "archive", "single"), async (req, res) => {
+  const { id: vectorStoreId } = req.params;
+  const archive = (req as any).file;
+  const options = parseOr400(res, BulkImportOptionsSchema, req.body, "Invalid import options");
+  if (!options) return;
+  const uploadOptions = parseOr400(res, UploadOptionsSchema.omit({ fileAttributes: true }), req.body, "Invalid upload options");
+  if (!uploadOptions) return;
+
+  const sources = [archive, options.directory, options.url].filter(Boolean).length;
+  if (sources !== 1) {
+    return res.status(400).json({ error: "Provide exactly one of archive, directory or url" });
+  }
+
+  try {
+    let source: string;
+    let candidates: ImportCandidate[];
+    if (archive) {
+      source = `archive:${archive.originalname}`;
+      candidates = zipCandidates(archive.buffer ?? (await fs.promises.readFile(archive.path)));
+    } else if (options.directory) {
+      source = `directory:${options.directory}`;
+      candidates = await directoryCandidates(options.directory);
+    } else {
+      source = `url:${options.url}`;
+      candidates = await urlCandidates(options.url!);
+    }
+
+    const { files, ...plan } = planImport(source, candidates, options, !options.dryRun);
+    if (options.dryRun) {
+      return res.json({ dryRun: true, ...plan });
+    }
+    if (files.length === 0) {
+      return res.status(400).json({ error: "No supported files matched", ...plan });
+    }
+
+    const { jobId, uploadedFileIds, uploads } = await startIngestion(vectorStoreId, files, uploadOptions);
+    if (!jobId) {
+      return res.json({ ...plan, jobId: null, uploadedFileIds, uploads, ingestion: null });
+    }
+    const wait = req.query.wait === "true" || req.body?.wait === "true";
+    const ingestion = wait ? await waitForIngestion(vectorStoreId, jobId) : await getIngestionStatus(vectorStoreId, jobId);
+
+    res.status(ingestion.done ? 200 : 202).json({ ...plan, jobId, uploadedFileIds, uploads, ingestion });
+  } catch (err) {
+    if (err instanceof BulkImportError) {
+      return res.status(err.status).json({ error: "Import failed", details: err.message });
+    }
+    if (err instanceof IngestionError) {
+      return res.status(err.status).json({ error: err.message, details: err.details });
+    }
+    sendOpenAIError(res, err, "Import failed");
+  }
+});
+
+/**
+ * GET /vector-stores/:id/ingestions/:jobId[?wait=true | ?stream=true]
+ * Status of an ingestion job (file batch) with per-file status and last_error.
+ * - wait=true: respond once the job is done (or the wait timeout is reached)
+ * - stream=true: SSE `progress` events (IngestionStatus) on every change, then `done`
+ */
+router.get("/:id/ingestions/:jobId", async (req, res) => {
+  const { id: vectorStoreId, jobId } = req.params;
+
+  if (req.query.stream === "true") {
+    sseHeaders(res);
+    const abort = new AbortController();
+    req.on("close", () => abort.abort());
+    try {
+      for await (const status of watchIngestion(vectorStoreId, jobId, { signal: abort.signal })) {
+        sseWrite(res, "progress", status);
+      }
+    } catch (err) {
+      sseWrite(res, "error", { error: err instanceof Error ? err.message : "Failed to read ingestion status" });
+    }
+    sseWrite(res, "done", {});
+    return res.end();
+  }
+
+  try {
+    const ingestion =
+      req.query.wait === "true" ? await waitForIngestion(vectorStoreId, jobId) : await getIngestionStatus(vectorStoreId, jobId);
+    res.json(ingestion);
+  } catch (err) {
+    sendOpenAIError(res, err, "Failed to retrieve ingestion status");
+  }
+});
 
+/**
+ * GET /vector-stores/:id/files/:fileId
+ * Ingestion status of one file (status, last_error with the parse/chunking error, usage_bytes).
+ */
+router.get("/:id/files/:fileId", async (req, res) => {
   try {
-    const uploadedFileIds: string[] = [];
-
-    // Upload each file to OpenAI Files API (purpose=assistants)
-    for (const file of files) {
-      const form = new FormData();
-      form.append("purpose", "assistants");
-      form.append("file", file.buffer, {
-        filename: file.originalname,
-        contentType: file.mimetype,
-      });
-
-      const response = await openai.post("/files", form, {
-        headers: {
-          ...form.getHeaders(),
-          Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-        },
-        maxBodyLength: Infinity,
-      });
-
-      uploadedFileIds.push(response.data.id);
-      // Attach to vector store
-      await addFileToVectorStore(vectorStoreId, response.data.id);
-    }
-
-    // Return updated list of vector store files
-    const updated = await listVectorStoreFiles(vectorStoreId);
-    res.json({ uploadedFileIds, vectorStoreFiles: updated });
+    const { id, fileId } = req.params;
+    res.json(await getVectorStoreFile(id, fileId));
+  } catch (err) {
+    sendOpenAIError(res, err, "Failed to retrieve vector store file");
+  }
+});
+
+/**
+ * GET /vector-stores/:id/files/:fileId/content
+ * Parsed text content of the file as ingested into the vector store.
+ * Follows next_page until the last page, so `text` is always the whole file.
+ * Returns { fileId, text, content } where content is the content page with the parts of all pages.
+ */
+router.get("/:id/files/:fileId/content", async (req, res) => {
+  try {
+    const { id, fileId } = req.params;
+    const parts: VectorStoreFileContent["data"] = [];
+    let content: VectorStoreFileContent;
+    let page: string | undefined;
+    do {
+      content = await getVectorStoreFileContent(id, fileId, page);
+      parts.push(...content.data);
+      // A repeated cursor would never end
+      page = content.has_more && content.next_page !== page ? content.next_page || undefined : undefined;
+    } while (page);
+    res.json({
+      fileId,
+      text: parts.map((part) => part.text).join("\n"),
+      content: { ...content, data: parts },
+    });
+  } catch (err) {
+    sendOpenAIError(res, err, "Failed to retrieve vector store file content");
+  }
+});
+
+/**
+ * DELETE /vector-stores/:id/files/:fileId?deleteFile=true
+ * Detaches the file from the vector store; with deleteFile=true the OpenAI file object is deleted too.
+ */
+router.delete("/:id/files/:fileId", async (req, res) => {
+  const { id, fileId } = req.params;
+  const alsoDeleteFile = req.query.deleteFile === "true";
+
+  try {
+    const detached = await removeFileFromVectorStore(id, fileId);
+    await forgetUpload(id, fileId);
+    if (!alsoDeleteFile) {
+      return res.json({ vectorStoreFile: detached, fileDeleted: false });
+    }
+
+    try {
+      const deleted = await deleteFile(fileId);
+      res.json({ vectorStoreFile: detached, fileDeleted: deleted.deleted });
+    } catch (err) {
+      sendOpenAIError(res, err, "File was detached but deleting the file object failed");
+    }
   } catch (err) {
-    console.error(err);
-    res.status(500).json({ error: "File upload failed" });
+    sendOpenAIError(res, err, "Failed to remove file from vector store");
   }
 });
 
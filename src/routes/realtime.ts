@@ -1,12 +1,8 @@
 import express from "express";
-import OpenAI from "openai";
+import { openaiUrl } from "../clients/config";
 
 const router = express.Router();
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
 /**
  * POST /realtime/session
  * Creates an ephemeral session for the OpenAI Realtime API
@@ -15,7 +11,7 @@ const openai = new OpenAI({
 router.post("/session", async (req, res) => {
   try {
     // Create ephemeral session for realtime API using direct HTTP call
-    const response = await fetch("https://api.openai.com/v1/realtime/sessions", {
+    const response = await fetch(openaiUrl("/realtime/sessions"), {
       method: "POST",
       headers: {
         "Authorization": `Bearer ${process.env.OPENAI_API_KEY}`,
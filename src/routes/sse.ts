@@ -0,0 +1,22 @@
+import express from "express";
+
+/**
+ * Server-Sent Events helpers shared by streaming routes.
+ */
+export function sseHeaders(res: express.Response) {
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+
+  // Flush initial padding for some proxies
+  res.write(":\n\n");
+}
+
+export function sseWrite(res: express.Response, event: string | null, data: any) {
+  try {
+    if (event) res.write(`event: ${event}\n`);
+    res.write(`data: ${JSON.stringify(data)}\n\n`);
+  } catch {
+    // ignore write errors (client disconnected)
+  }
+}
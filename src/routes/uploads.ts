@@ -0,0 +1,242 @@
+import express from "express";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import multer from "multer";
+import { Transform } from "stream";
+import type { UploadedFile } from "../services/ingestion";
+
+/**
+ * Upload policies for multipart routes
+ * - Documents (vector store uploads): UPLOAD_MAX_FILE_MB (default 50), UPLOAD_MAX_FILES (default 20),
+ *   UPLOAD_MAX_TOTAL_MB (default 200), UPLOAD_STORAGE=memory|disk (default memory), UPLOAD_DIR (disk storage)
+ * - Audio (agent routes): AUDIO_MAX_FILE_MB (default 25, the transcription API limit), always in memory
+ * - ZIP archives (bulk import): IMPORT_MAX_ARCHIVE_MB (default 200)
+ * - Files need a listed extension, and a listed MIME type unless the client sent a generic one
+ * - Unsupported types are rejected with 415, oversized requests with 413, before anything is sent to OpenAI;
+ *   the total size is counted while files stream in, so a request is cut off as soon as it is over the limit
+ * - Disk-stored files are removed once the response finished
+ */
+export type UploadPolicy = {
+  name: string;
+  maxFileBytes: number;
+  maxFiles: number;
+  maxTotalBytes: number;
+  // Lowercase extensions including the dot
+  extensions: string[];
+  // Base MIME types (parameters such as `;codecs=opus` are ignored)
+  mimeTypes: string[];
+  storage: "memory" | "disk";
+};
+
+const MB = 1024 * 1024;
+const mb = (name: string, fallback: number) => Math.round(parseFloat(process.env[name] || "") * MB) || fallback * MB;
+const int = (name: string, fallback: number) => parseInt(process.env[name] || "", 10) || fallback;
+
+// Formats supported by file_search
+export const DOCUMENT_UPLOADS: UploadPolicy = {
+  name: "document",
+  maxFileBytes: mb("UPLOAD_MAX_FILE_MB", 50),
+  maxFiles: int("UPLOAD_MAX_FILES", 20),
+  maxTotalBytes: mb("UPLOAD_MAX_TOTAL_MB", 200),
+  extensions: [
+    ".c", ".cpp", ".cs", ".css", ".doc", ".docx", ".go", ".html", ".java", ".js", ".json",
+    ".md", ".pdf", ".php", ".pptx", ".py", ".rb", ".sh", ".tex", ".ts", ".txt",
+  ],
+  mimeTypes: [
+    "application/pdf",
+    "application/json",
+    "application/msword",
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    "application/typescript",
+    "application/x-sh",
+    "application/x-tex",
+    "text/plain",
+    "text/markdown",
+    "text/html",
+    "text/css",
+    "text/javascript",
+    "text/x-c",
+    "text/x-c++",
+    "text/x-csharp",
+    "text/x-golang",
+    "text/x-java",
+    "text/x-php",
+    "text/x-python",
+    "text/x-script.python",
+    "text/x-ruby",
+    "text/x-sh",
+    "text/x-tex",
+    "text/x-typescript",
+  ],
+  storage: process.env.UPLOAD_STORAGE === "disk" ? "disk" : "memory",
+};
+
+// Formats accepted by the transcription API
+export const AUDIO_UPLOADS: UploadPolicy = {
+  name: "audio",
+  maxFileBytes: mb("AUDIO_MAX_FILE_MB", 25),
+  maxFiles: 1,
+  maxTotalBytes: mb("AUDIO_MAX_FILE_MB", 25),
+  extensions: [".flac", ".m4a", ".mp3", ".mp4", ".mpeg", ".mpga", ".oga", ".ogg", ".wav", ".webm"],
+  mimeTypes: [
+    "audio/flac",
+    "audio/x-flac",
+    "audio/m4a",
+    "audio/x-m4a",
+    "audio/mp4",
+    "audio/mpeg",
+    "audio/mp3",
+    "audio/ogg",
+    "audio/wav",
+    "audio/x-wav",
+    "audio/wave",
+    "audio/webm",
+    "video/mp4",
+    "video/webm",
+  ],
+  storage: "memory",
+};
+
+// ZIP archives for bulk import (POST /vector-stores/:id/import); entries are checked against DOCUMENT_UPLOADS
+export const ARCHIVE_UPLOADS: UploadPolicy = {
+  name: "archive",
+  maxFileBytes: mb("IMPORT_MAX_ARCHIVE_MB", 200),
+  maxFiles: 1,
+  maxTotalBytes: mb("IMPORT_MAX_ARCHIVE_MB", 200),
+  extensions: [".zip"],
+  mimeTypes: ["application/zip", "application/x-zip-compressed"],
+  storage: DOCUMENT_UPLOADS.storage,
+};
+
+const UPLOAD_DIR = process.env.UPLOAD_DIR || path.join(os.tmpdir(), "uploads");
+// Allowance for multipart boundaries and text fields when checking Content-Length
+const MULTIPART_OVERHEAD_BYTES = MB;
+
+// MIME types clients send when they do not know the type; the extension decides alone
+const GENERIC_MIME_TYPES = ["", "application/octet-stream", "binary/octet-stream"];
+
+class UnsupportedTypeError extends Error {}
+class TotalSizeError extends Error {}
+
+/**
+ * The extension must be one of the policy's; a specific MIME type must be one of the policy's too.
+ */
+export function isAllowedUpload(policy: UploadPolicy, file: UploadedFile): boolean {
+  const ext = path.extname(file.originalname || "").toLowerCase();
+  const mime = (file.mimetype || "").split(";")[0].trim().toLowerCase();
+  if (!policy.extensions.includes(ext)) return false;
+  return GENERIC_MIME_TYPES.includes(mime) || policy.mimeTypes.includes(mime);
+}
+
+function storageFor(policy: UploadPolicy): multer.StorageEngine {
+  if (policy.storage === "memory") return multer.memoryStorage();
+  fs.mkdirSync(UPLOAD_DIR, { recursive: true });
+  return multer.diskStorage({ destination: UPLOAD_DIR });
+}
+
+/**
+ * Wraps a storage engine to count the bytes of all files in a request. The file that crosses
+ * maxTotalBytes is cut off, removed from storage and fails with TotalSizeError, which aborts the upload.
+ */
+function totalLimitStorage(inner: multer.StorageEngine, maxTotalBytes: number): multer.StorageEngine {
+  const received = new WeakMap<express.Request, number>();
+  return {
+    _handleFile(req: express.Request, file: any, cb: (err?: Error | null, info?: any) => void) {
+      let exceeded = false;
+      const counted = new Transform({
+        transform(chunk: Buffer, _encoding, next) {
+          const total = (received.get(req) || 0) + chunk.length;
+          received.set(req, total);
+          if (total <= maxTotalBytes) return next(null, chunk);
+          // Stop storing; the rest of the request is drained and discarded by multer
+          exceeded = true;
+          file.stream.unpipe(counted);
+          file.stream.resume();
+          counted.end();
+          next();
+        },
+      });
+      file.stream.pipe(counted);
+      inner._handleFile(req, { ...file, stream: counted }, (err?: Error | null, info?: any) => {
+        if (err || !exceeded) return cb(err, info);
+        inner._removeFile(req, { ...file, ...info }, () =>
+          cb(new TotalSizeError(`Upload exceeds the ${maxTotalBytes} byte total limit`))
+        );
+      });
+    },
+    _removeFile(req: express.Request, file: any, cb: (err: Error | null) => void) {
+      inner._removeFile(req, file, cb);
+    },
+  };
+}
+
+function describeLimit(policy: UploadPolicy) {
+  return {
+    maxFileBytes: policy.maxFileBytes,
+    maxFiles: policy.maxFiles,
+    maxTotalBytes: policy.maxTotalBytes,
+  };
+}
+
+/**
+ * Multer middleware enforcing the policy. `mode` "array" accepts up to maxFiles files in `field`,
+ * "single" accepts one. Errors answer JSON: 413 (too large / too many), 415 (type), 400 (malformed).
+ */
+export function acceptUploads(policy: UploadPolicy, field: string, mode: "array" | "single" = "array"): express.RequestHandler {
+  const upload = multer({
+    storage: totalLimitStorage(storageFor(policy), policy.maxTotalBytes),
+    limits: {
+      fileSize: policy.maxFileBytes,
+      files: mode === "single" ? 1 : policy.maxFiles,
+    },
+    fileFilter: (_req: express.Request, file: UploadedFile, cb: (err: Error | null, accept?: boolean) => void) => {
+      if (isAllowedUpload(policy, file)) return cb(null, true);
+      cb(new UnsupportedTypeError(`${file.originalname} (${file.mimetype || "unknown type"})`));
+    },
+  });
+  const handler = mode === "single" ? upload.single(field) : upload.array(field, policy.maxFiles);
+
+  return (req, res, next) => {
+    // Reject obviously oversized bodies before reading them
+    const declared = parseInt(req.headers["content-length"] || "", 10);
+    if (declared > policy.maxTotalBytes + MULTIPART_OVERHEAD_BYTES) {
+      res.setHeader("Connection", "close");
+      return res.status(413).json({ error: `Upload too large (${declared} bytes)`, limits: describeLimit(policy) });
+    }
+
+    handler(req, res, (err?: any) => {
+      const { files: many, file: one } = req as any;
+      const files: Array<{ size: number; path?: string }> = many || (one ? [one] : []);
+      if (policy.storage === "disk") {
+        res.on("close", () => files.forEach((f) => f.path && fs.promises.unlink(f.path).catch(() => undefined)));
+      }
+
+      if (err instanceof UnsupportedTypeError) {
+        return res.status(415).json({
+          error: `Unsupported ${policy.name} type: ${err.message}`,
+          supported: policy.extensions,
+        });
+      }
+      if (err instanceof TotalSizeError) {
+        res.setHeader("Connection", "close");
+        return res.status(413).json({ error: err.message, limits: describeLimit(policy) });
+      }
+      if (err instanceof multer.MulterError) {
+        const tooLarge = err.code === "LIMIT_FILE_SIZE" || err.code === "LIMIT_FILE_COUNT" || err.code === "LIMIT_FIELD_VALUE";
+        const message =
+          err.code === "LIMIT_FILE_SIZE"
+            ? `File exceeds the ${policy.maxFileBytes} byte limit${err.field ? ` (field '${err.field}')` : ""}`
+            : err.code === "LIMIT_FILE_COUNT"
+              ? `Too many files (max ${mode === "single" ? 1 : policy.maxFiles})`
+              : err.code === "LIMIT_UNEXPECTED_FILE"
+                ? `Unexpected file field '${err.field}' (expected '${field}')`
+                : err.message;
+        return res.status(tooLarge ? 413 : 400).json({ error: message, code: err.code, limits: describeLimit(policy) });
+      }
+      if (err) return next(err);
+      next();
+    });
+  };
+}
@@ -1,86 +1,213 @@
 import express from "express";
-import multer from "multer";
-import FormData from "form-data";
-import openai, {
+import { z } from "zod";
+import {
   createVectorStore,
   listVectorStores,
+  getVectorStore,
+  updateVectorStore,
+  deleteVectorStore,
   listVectorStoreFiles,
-  addFileToVectorStore,
 } from "../clients/azureOpenAI";
+import { IngestionError, UploadOptionsSchema, startIngestion, getIngestionStatus, waitForIngestion } from "../services/ingestion";
+import { VectorSearchRequestSchema, searchVectorStores } from "../services/vectorSearch";
+import { forgetVectorStore } from "../services/uploadIndex";
+import { ChunkingStrategySchema, storeChunkingStrategy, withChunkingMetadata } from "../services/chunking";
+import { listProcessors } from "../preprocessing";
+import { ListQuerySchema, parseOr400, sendOpenAIError } from "./errors";
+import { DOCUMENT_UPLOADS, acceptUploads } from "./uploads";
 
 const router = express.Router();
-const upload = multer({ storage: multer.memoryStorage() });
+
+// PATCH body; null clears name / metadata / expiry
+const VectorStoreUpdateSchema = z
+  .object({
+    name: z.string().min(1).max(256).nullable().optional(),
+    // OpenAI limits: up to 16 pairs, 64-char keys, 512-char values
+    metadata: z
+      .record(z.string().max(64), z.string().max(512))
+      .refine((m) => Object.keys(m).length <= 16, "metadata supports at most 16 keys")
+      .nullable()
+      .optional(),
+    expires_after: z
+      .object({ anchor: z.literal("last_active_at").default("last_active_at"), days: z.number().int().min(1).max(365) })
+      .nullable()
+      .optional(),
+    // Default for later uploads (kept in metadata); null removes it
+    chunking_strategy: ChunkingStrategySchema.nullable().optional(),
+  })
+  .strict()
+  .refine((u) => Object.keys(u).length > 0, "Provide at least one of name, metadata, expires_after, chunking_strategy");
+
+const FileListQuerySchema = ListQuerySchema.extend({
+  filter: z.enum(["in_progress", "completed", "failed", "cancelled"]).optional(),
+});
+
+const MultiStoreSearchSchema = VectorSearchRequestSchema.extend({
+  vectorStoreIds: z.array(z.string().min(1)).min(1),
+});
 
 /**
  * POST /vector-stores (form-data)
  * name (text) - vector store name
- * files (file) - one or more files to ingest immediately
+ * files (file) - one or more files to ingest immediately (as one file batch)
+ * wait (text, optional) - "true" to respond once ingestion finished
+ * chunking_strategy (text, optional) - JSON { type: "auto" } | { type: "static", static: { max_chunk_size_tokens, chunk_overlap_tokens } };
+ *   used for these files and stored as the default for later uploads
+ * attributes / fileAttributes / onDuplicate / preprocess (text, optional) - see POST /vector-stores/:id/files
  */
-router.post("/", upload.array("files"), async (req, res) => {
+router.post("/", acceptUploads(DOCUMENT_UPLOADS, "files"), async (req, res) => {
   try {
     const { name } = req.body;
     if (!name) {
       return res.status(400).json({ error: "name is required" });
     }
+    const uploadOptions = parseOr400(res, UploadOptionsSchema, req.body, "Invalid upload options");
+    if (!uploadOptions) return;
 
-    // 1) create the vector store
-    const vs = await createVectorStore(name);
+    // 1) create the vector store (with its default chunking strategy)
+    const { chunking_strategy } = uploadOptions;
+    const vs = await createVectorStore(name, chunking_strategy ? { metadata: withChunkingMetadata({}, chunking_strategy) } : {});
 
     // 2) ingest uploaded files (if any)
     const files = ((req as any).files as any[]) || [];
-    const uploadedIds: string[] = [];
-
-    for (const file of files) {
-      const form = new FormData();
-      form.append("purpose", "assistants");
-      form.append("file", file.buffer, {
-        filename: file.originalname,
-        contentType: file.mimetype,
-      });
-
-      const fRes = await openai.post("/files", form, {
-        headers: {
-          ...form.getHeaders(),
-          Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-        },
-        maxBodyLength: Infinity,
-      });
-
-      uploadedIds.push(fRes.data.id);
-      await addFileToVectorStore(vs.id, fRes.data.id);
+    if (files.length === 0) {
+      return res.json({ vectorStore: vs, uploadedFileIds: [] });
+    }
+
+    // A new store has no earlier uploads: only repeats within this request are duplicates, so a job always starts
+    let started: Awaited<ReturnType<typeof startIngestion>>;
+    try {
+      started = await startIngestion(vs.id, files, uploadOptions);
+    } catch (err) {
+      if (!(err instanceof IngestionError)) throw err;
+      // Nothing was uploaded; do not leave the empty store behind
+      await deleteVectorStore(vs.id);
+      return res.status(err.status).json({ error: err.message, details: err.details });
     }
+    const { uploadedFileIds, uploads } = started;
+    const jobId = started.jobId!;
+    const wait = req.query.wait === "true" || req.body?.wait === "true";
+    const ingestion = wait ? await waitForIngestion(vs.id, jobId) : await getIngestionStatus(vs.id, jobId);
+
+    res.status(ingestion.done ? 200 : 202).json({ vectorStore: vs, uploadedFileIds, uploads, jobId, ingestion });
+  } catch (err) {
+    sendOpenAIError(res, err, "Failed to create vector store");
+  }
+});
+
+/**
+ * POST /vector-stores/search
+ * Body: { vectorStoreIds: string[], query, filters?, maxNumResults?, rankingOptions?, rewriteQuery? }
+ * Searches several stores and returns their chunks merged by score.
+ */
+router.post("/search", async (req, res) => {
+  const request = parseOr400(res, MultiStoreSearchSchema, req.body, "Invalid search request");
+  if (!request) return;
+  try {
+    const { vectorStoreIds, ...search } = request;
+    res.json(await searchVectorStores(Array.from(new Set(vectorStoreIds)), search));
+  } catch (err) {
+    sendOpenAIError(res, err, "Vector store search failed");
+  }
+});
 
-    res.json({ vectorStore: vs, uploadedFileIds: uploadedIds });
+/**
+ * POST /vector-stores/:id/search
+ * Body: { query: string | string[], filters?, maxNumResults?, rankingOptions?, rewriteQuery? }
+ * Returns ranked chunks { rank, fileId, filename, score, attributes, text } without calling a model.
+ */
+router.post("/:id/search", async (req, res) => {
+  const request = parseOr400(res, VectorSearchRequestSchema, req.body, "Invalid search request");
+  if (!request) return;
+  try {
+    res.json(await searchVectorStores([req.params.id], request));
   } catch (err) {
-    console.error(err);
-    res.status(500).json({ error: "Failed to create vector store" });
+    sendOpenAIError(res, err, "Vector store search failed");
   }
 });
 
 /**
- * GET /vector-stores
+ * GET /vector-stores/preprocessors
+ * Registered preprocessors (usable in the `preprocess` upload field) with their options schema.
+ */
+router.get("/preprocessors", (_req, res) => {
+  res.json({ processors: listProcessors() });
+});
+
+/**
+ * GET /vector-stores?after=&before=&limit=&order=
  */
-router.get("/", async (_, res) => {
+router.get("/", async (req, res) => {
+  const query = parseOr400(res, ListQuerySchema, req.query, "Invalid pagination parameters");
+  if (!query) return;
   try {
-    const data = await listVectorStores();
+    const data = await listVectorStores(query);
     res.json(data);
   } catch (err) {
-    console.error(err);
-    res.status(500).json({ error: "Failed to list vector stores" });
+    sendOpenAIError(res, err, "Failed to list vector stores");
+  }
+});
+
+/**
+ * GET /vector-stores/:id
+ */
+router.get("/:id", async (req, res) => {
+  try {
+    res.json(await getVectorStore(req.params.id));
+  } catch (err) {
+    sendOpenAIError(res, err, "Failed to retrieve vector store");
+  }
+});
+
+/**
+ * PATCH /vector-stores/:id
+ * Body: { name?, metadata?, expires_after?: { anchor: "last_active_at", days }, chunking_strategy? } (null clears a field)
+ * Replacing metadata keeps the default chunking strategy unless chunking_strategy is given.
+ */
+router.patch("/:id", async (req, res) => {
+  const update = parseOr400(res, VectorStoreUpdateSchema, req.body, "Invalid vector store update");
+  if (!update) return;
+  try {
+    const { chunking_strategy, ...fields } = update;
+    if (chunking_strategy === undefined && fields.metadata === undefined) {
+      return res.json(await updateVectorStore(req.params.id, fields));
+    }
+
+    const current = await getVectorStore(req.params.id);
+    const strategy = chunking_strategy !== undefined ? chunking_strategy : storeChunkingStrategy(current) ?? null;
+    const metadata = withChunkingMetadata(fields.metadata !== undefined ? fields.metadata : current.metadata, strategy);
+    res.json(await updateVectorStore(req.params.id, { ...fields, metadata }));
+  } catch (err) {
+    sendOpenAIError(res, err, "Failed to update vector store");
+  }
+});
+
+/**
+ * DELETE /vector-stores/:id
+ * Deletes the store only; uploaded file objects are kept.
+ */
+router.delete("/:id", async (req, res) => {
+  try {
+    const deleted = await deleteVectorStore(req.params.id);
+    await forgetVectorStore(req.params.id);
+    res.json(deleted);
+  } catch (err) {
+    sendOpenAIError(res, err, "Failed to delete vector store");
   }
 });
 
 /**
- * GET /vector-stores/:id/files
+ * GET /vector-stores/:id/files?after=&before=&limit=&order=&filter=
  */
 router.get("/:id/files", async (req, res) => {
+  const query = parseOr400(res, FileListQuerySchema, req.query, "Invalid pagination parameters");
+  if (!query) return;
   try {
     const { id } = req.params;
-    const data = await listVectorStoreFiles(id);
+    const data = await listVectorStoreFiles(id, query);
     res.json(data);
   } catch (err) {
-    console.error(err);
-    res.status(500).json({ error: "Failed to list vector store files" });
+    sendOpenAIError(res, err, "Failed to list vector store files");
   }
 });
 
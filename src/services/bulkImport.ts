@@ -0,0 +1,296 @@
+import fs from "fs";
+import path from "path";
+import axios from "axios";
+import AdmZip from "adm-zip";
+import { minimatch } from "minimatch";
+import { z } from "zod";
+import { DOCUMENT_UPLOADS, isAllowedUpload } from "../routes/uploads";
+import { UploadedFile } from "./ingestion";
+
+/**
+ * Bulk import sources for a vector store
+ * - ZIP archive (uploaded, or downloaded from an allow-listed URL), a single document URL, or a server directory
+ * - Directories must be inside IMPORT_ALLOWED_DIRS (comma-separated; directory import is off when unset),
+ *   both as given and after resolving symlinks; anything outside answers the same 403 whether it exists or not
+ * - URLs must be under one of IMPORT_URL_ALLOWLIST (comma-separated URL prefixes; off when unset): same scheme,
+ *   host and port, and a path equal to the prefix's or below it on a "/" boundary
+ * - Files are selected with include/exclude globs on the relative path (dotfiles only when a glob names them),
+ *   must be a supported document type and within the document upload limits
+ * - The relative path is kept as the `path` file attribute
+ * - ZIP entries with an absurd compression ratio are skipped, and decompressed sizes are checked against the limits
+ */
+export const IMPORT_ALLOWED_DIRS = (process.env.IMPORT_ALLOWED_DIRS || "")
+  .split(",")
+  .map((d) => d.trim())
+  .filter(Boolean)
+  .map((d) => path.resolve(d));
+export const IMPORT_URL_ALLOWLIST = (process.env.IMPORT_URL_ALLOWLIST || "")
+  .split(",")
+  .map((u) => u.trim())
+  .filter(Boolean)
+  .map((u) => {
+    try {
+      return new URL(u);
+    } catch {
+      throw new Error(`Invalid IMPORT_URL_ALLOWLIST entry: ${u}`);
+    }
+  });
+export const IMPORT_MAX_FILES = parseInt(process.env.IMPORT_MAX_FILES || "500", 10);
+// Declared size / compressed size above which a ZIP entry is treated as a decompression bomb
+export const ZIP_MAX_COMPRESSION_RATIO = parseInt(process.env.ZIP_MAX_COMPRESSION_RATIO || "200", 10);
+
+export class BulkImportError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = "BulkImportError";
+  }
+}
+
+// Globs arrive as a JSON array, a comma-separated string or repeated form fields
+const globList = z.preprocess((value) => {
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value.split(",").map((g) => g.trim()).filter(Boolean);
+  }
+}, z.array(z.string().min(1)).max(50));
+
+const booleanField = z.preprocess((value) => (typeof value === "string" ? value === "true" : value), z.boolean());
+
+export const BulkImportOptionsSchema = z.object({
+  directory: z.string().min(1).optional(),
+  url: z.string().url().optional(),
+  include: globList.optional(),
+  exclude: globList.optional(),
+  dryRun: booleanField.optional(),
+});
+export type BulkImportOptions = z.infer<typeof BulkImportOptionsSchema>;
+
+export type ImportSkipReason = "excluded" | "unsupported" | "too_large" | "limit_reached" | "compression_ratio";
+
+export type ImportCandidate = {
+  path: string;
+  size: number;
+  // ZIP entries: size in the archive (size is then the declared uncompressed size)
+  compressedSize?: number;
+  load: () => UploadedFile;
+};
+
+export type ImportPlan = {
+  source: string;
+  selected: Array<{ path: string; size: number }>;
+  skipped: Array<{ path: string; size: number; reason: ImportSkipReason }>;
+  totalBytes: number;
+  files: UploadedFile[];
+};
+
+function isInside(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+/**
+ * The parsed URL when it is under an IMPORT_URL_ALLOWLIST entry (credentials are never allowed).
+ */
+export function allowedImportUrl(url: string): URL | undefined {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    return undefined;
+  }
+  if (target.username || target.password) return undefined;
+  const allowed = IMPORT_URL_ALLOWLIST.some((prefix) => {
+    if (target.origin !== prefix.origin) return false;
+    const base = prefix.pathname.replace(/\/+$/, "");
+    return target.pathname === base || target.pathname.startsWith(`${base}/`);
+  });
+  return allowed ? target : undefined;
+}
+
+// Archive entry names use "/"; drop entries escaping the archive root
+function safeRelativePath(name: string): string | undefined {
+  const normalized = path.posix.normalize(name.replace(/\\/g, "/")).replace(/^\/+/, "");
+  if (!normalized || normalized === "." || normalized.startsWith("../")) return undefined;
+  return normalized;
+}
+
+// Attribute string values are limited to 512 characters; keep the end of long paths
+const pathAttribute = (relativePath: string) => ({ path: relativePath.slice(-512) });
+
+function fromBuffer(relativePath: string, buffer: Buffer): UploadedFile {
+  return { buffer, originalname: path.posix.basename(relativePath), attributes: pathAttribute(relativePath) };
+}
+
+// Empty files deflate to a couple of bytes; anything larger that claims to be empty is lying
+const EMPTY_DEFLATE_BYTES = 2;
+
+function suspiciousCompression(size: number, compressedSize: number): boolean {
+  if (size === 0) return compressedSize > EMPTY_DEFLATE_BYTES;
+  return size > compressedSize * ZIP_MAX_COMPRESSION_RATIO;
+}
+
+/**
+ * Files of a ZIP archive (directories and macOS metadata skipped). Sizes come from the entry headers,
+ * so nothing is decompressed before selection; planImport checks the decompressed sizes on load.
+ */
+export function zipCandidates(archive: Buffer): ImportCandidate[] {
+  let zip: AdmZip;
+  try {
+    zip = new AdmZip(archive);
+  } catch (err) {
+    throw new BulkImportError(`Invalid ZIP archive: ${(err as Error).message}`, 400);
+  }
+  return zip
+    .getEntries()
+    .filter((entry) => !entry.isDirectory && !entry.entryName.startsWith("__MACOSX/"))
+    .flatMap((entry) => {
+      const relativePath = safeRelativePath(entry.entryName);
+      if (!relativePath) return [];
+      return [
+        {
+          path: relativePath,
+          size: entry.header.size,
+          compressedSize: entry.header.compressedSize,
+          load: () => fromBuffer(relativePath, entry.getData()),
+        },
+      ];
+    });
+}
+
+/**
+ * Files below an allow-listed directory (symlinks are not followed).
+ */
+export async function directoryCandidates(directory: string): Promise<ImportCandidate[]> {
+  if (IMPORT_ALLOWED_DIRS.length === 0) {
+    throw new BulkImportError("Directory import is disabled (set IMPORT_ALLOWED_DIRS)", 403);
+  }
+  const notAllowed = new BulkImportError(`Directory is not allowed for import: ${directory}`, 403);
+  // Checked before touching the file system, so paths outside cannot be probed
+  const requested = path.resolve(directory);
+  if (!IMPORT_ALLOWED_DIRS.some((dir) => isInside(dir, requested))) throw notAllowed;
+
+  let root: string;
+  try {
+    root = await fs.promises.realpath(requested);
+  } catch {
+    throw new BulkImportError(`Directory not found: ${directory}`, 404);
+  }
+  // Symlinks inside an allowed directory must not lead out of them
+  const allowed = await Promise.all(IMPORT_ALLOWED_DIRS.map((d) => fs.promises.realpath(d).catch(() => d)));
+  if (!allowed.some((dir) => isInside(dir, root))) throw notAllowed;
+  if (!(await fs.promises.stat(root)).isDirectory()) {
+    throw new BulkImportError(`Not a directory: ${directory}`, 400);
+  }
+
+  const candidates: ImportCandidate[] = [];
+  const walk = async (dir: string) => {
+    for (const entry of await fs.promises.readdir(dir, { withFileTypes: true })) {
+      const absolute = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await walk(absolute);
+      } else if (entry.isFile()) {
+        const relativePath = path.relative(root, absolute).split(path.sep).join("/");
+        const { size } = await fs.promises.stat(absolute);
+        // Disk-backed: streamed to the Files API
+        candidates.push({
+          path: relativePath,
+          size,
+          load: () => ({ path: absolute, originalname: entry.name, attributes: pathAttribute(relativePath) }),
+        });
+      }
+    }
+  };
+  await walk(root);
+  return candidates;
+}
+
+/**
+ * A ZIP archive or a single document from an allow-listed URL.
+ */
+export async function urlCandidates(url: string): Promise<ImportCandidate[]> {
+  if (IMPORT_URL_ALLOWLIST.length === 0) {
+    throw new BulkImportError("URL import is disabled (set IMPORT_URL_ALLOWLIST)", 403);
+  }
+  const target = allowedImportUrl(url);
+  if (!target) {
+    throw new BulkImportError(`URL is not allowed for import: ${url}`, 403);
+  }
+
+  let res;
+  try {
+    // The parsed URL is fetched, so what was checked is what is requested
+    res = await axios.get<ArrayBuffer>(target.href, {
+      responseType: "arraybuffer",
+      maxContentLength: DOCUMENT_UPLOADS.maxTotalBytes,
+      maxRedirects: 0,
+      timeout: 60000,
+    });
+  } catch (err) {
+    throw new BulkImportError(`Download failed: ${(err as Error).message}`, 502);
+  }
+
+  const buffer = Buffer.from(res.data);
+  const name = decodeURIComponent(path.posix.basename(target.pathname)) || "download";
+  const contentType = String(res.headers["content-type"] || "");
+  if (name.toLowerCase().endsWith(".zip") || /zip/.test(contentType)) return zipCandidates(buffer);
+  return [{ path: name, size: buffer.length, load: () => ({ ...fromBuffer(name, buffer), mimetype: contentType.split(";")[0] }) }];
+}
+
+/**
+ * Select the files to import. Selected files are loaded (ZIP entries decompressed) only when `load` is true;
+ * a loaded file larger than its declared size or the limits fails the import (400).
+ */
+export function planImport(
+  source: string,
+  candidates: ImportCandidate[],
+  { include, exclude }: Pick<BulkImportOptions, "include" | "exclude">,
+  load: boolean
+): ImportPlan {
+  const plan: ImportPlan = { source, selected: [], skipped: [], totalBytes: 0, files: [] };
+  // Globs without "/" match the file name at any depth ("*.pdf"), others the whole relative path
+  const matches = (globs: string[], p: string) => globs.some((glob) => minimatch(p, glob, { matchBase: !glob.includes("/") }));
+  const includes = include?.length ? include : ["**"];
+  // Bytes actually loaded; archive headers may understate them
+  let loadedBytes = 0;
+
+  for (const candidate of candidates.sort((a, b) => a.path.localeCompare(b.path))) {
+    const { path: relativePath, size } = candidate;
+    let reason: ImportSkipReason | undefined;
+    if (!matches(includes, relativePath) || matches(exclude || [], relativePath)) {
+      reason = "excluded";
+    } else if (!isAllowedUpload(DOCUMENT_UPLOADS, { originalname: relativePath })) {
+      reason = "unsupported";
+    } else if (size > DOCUMENT_UPLOADS.maxFileBytes) {
+      reason = "too_large";
+    } else if (candidate.compressedSize !== undefined && suspiciousCompression(size, candidate.compressedSize)) {
+      reason = "compression_ratio";
+    } else if (plan.selected.length >= IMPORT_MAX_FILES || plan.totalBytes + size > DOCUMENT_UPLOADS.maxTotalBytes) {
+      reason = "limit_reached";
+    }
+
+    if (reason) {
+      plan.skipped.push({ path: relativePath, size, reason });
+      continue;
+    }
+    plan.selected.push({ path: relativePath, size });
+    plan.totalBytes += size;
+    if (load) {
+      let file: UploadedFile;
+      try {
+        file = candidate.load();
+      } catch (err) {
+        // adm-zip stops inflating at the declared size
+        throw new BulkImportError(`Could not read ${relativePath}: ${(err as Error).message}`, 400);
+      }
+      const actual = file.buffer?.length ?? size;
+      loadedBytes += actual;
+      if (actual > size || actual > DOCUMENT_UPLOADS.maxFileBytes || loadedBytes > DOCUMENT_UPLOADS.maxTotalBytes) {
+        throw new BulkImportError(`${relativePath} decompressed to ${actual} bytes, more than declared or allowed`, 400);
+      }
+      plan.files.push(file);
+    }
+  }
+  return plan;
+}
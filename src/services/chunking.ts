@@ -0,0 +1,65 @@
+import { z } from "zod";
+import { ChunkingStrategy, VectorStore, getVectorStore } from "../clients/azureOpenAI";
+
+/**
+ * Chunking strategy per vector store and per upload
+ * - `chunking_strategy`: { type: "auto" } or { type: "static", static: { max_chunk_size_tokens, chunk_overlap_tokens } }
+ * - A store's default is kept in its metadata (key `chunking_strategy`, JSON) so it survives restarts;
+ *   uploads use the request's strategy, else the store default, else OpenAI's auto strategy
+ */
+export const CHUNKING_METADATA_KEY = "chunking_strategy";
+
+export const ChunkingStrategySchema: z.ZodType<ChunkingStrategy> = z.union([
+  z.object({ type: z.literal("auto") }).strict(),
+  z
+    .object({
+      type: z.literal("static"),
+      static: z
+        .object({
+          max_chunk_size_tokens: z.number().int().min(100).max(4096),
+          chunk_overlap_tokens: z.number().int().min(0),
+        })
+        .strict()
+        .refine((s) => s.chunk_overlap_tokens <= s.max_chunk_size_tokens / 2, {
+          message: "chunk_overlap_tokens must not exceed half of max_chunk_size_tokens",
+          path: ["chunk_overlap_tokens"],
+        }),
+    })
+    .strict(),
+]);
+
+/**
+ * The store's default strategy from its metadata (undefined when unset or unreadable).
+ */
+export function storeChunkingStrategy(store: Pick<VectorStore, "metadata">): ChunkingStrategy | undefined {
+  const raw = store.metadata?.[CHUNKING_METADATA_KEY];
+  if (!raw) return undefined;
+  try {
+    const parsed = ChunkingStrategySchema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Metadata with the default strategy set (or removed for null); other keys are kept.
+ */
+export function withChunkingMetadata(
+  metadata: Record<string, string> | null | undefined,
+  strategy: ChunkingStrategy | null
+): Record<string, string> {
+  const { [CHUNKING_METADATA_KEY]: _previous, ...rest } = metadata || {};
+  return strategy ? { ...rest, [CHUNKING_METADATA_KEY]: JSON.stringify(strategy) } : rest;
+}
+
+/**
+ * Strategy for an upload: the requested one, else the store default.
+ */
+export async function resolveChunkingStrategy(
+  vectorStoreId: string,
+  requested?: ChunkingStrategy
+): Promise<ChunkingStrategy | undefined> {
+  if (requested) return requested;
+  return storeChunkingStrategy(await getVectorStore(vectorStoreId));
+}
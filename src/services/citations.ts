@@ -0,0 +1,171 @@
+import { getVectorStoreFile } from "../clients/azureOpenAI";
+
+/**
+ * Citations and retrieved-chunk provenance from Responses API output
+ * - Citations come from `file_citation` annotations on output_text parts (index = position in the text)
+ * - Retrieved chunks come from `file_search_call.results`, present only when the request had
+ *   `include: ["file_search_call.results"]` (params.includeChunks)
+ * - The vector store of a cited file is the searched store when only one was searched; otherwise it is
+ *   looked up per store (GET /vector_stores/:id/files/:fileId)
+ */
+export type Citation = {
+  // 1-based footnote number, in order of first appearance
+  number: number;
+  fileId: string;
+  filename?: string;
+  // Character offset in the answer text the citation is attached to
+  index?: number;
+  // Excerpt of the best-scoring retrieved chunk of the file (only with retrieved chunks)
+  quote?: string;
+  vectorStoreId?: string;
+  // Fan-out branch the citation came from
+  branch?: string;
+};
+
+export type RetrievedChunk = {
+  fileId: string;
+  filename?: string;
+  score?: number;
+  text?: string;
+  attributes?: Record<string, string | number | boolean> | null;
+  vectorStoreId?: string;
+};
+
+export type Provenance = {
+  citations: Citation[];
+  chunks?: RetrievedChunk[];
+};
+
+const QUOTE_MAX_CHARS = 300;
+
+function outputItems(response: any): any[] {
+  return Array.isArray(response?.output) ? response.output : [];
+}
+
+// Vector stores searched by the response's file_search tool(s)
+function searchedVectorStores(response: any): string[] {
+  const tools: any[] = Array.isArray(response?.tools) ? response.tools : [];
+  return Array.from(new Set(tools.filter((t) => t?.type === "file_search").flatMap((t) => t.vector_store_ids || [])));
+}
+
+/**
+ * Retrieved chunks (file_search_call.results), best score first. Undefined when results were not included.
+ */
+export function extractChunks(response: any): RetrievedChunk[] | undefined {
+  const calls = outputItems(response).filter((item) => item?.type === "file_search_call");
+  if (!calls.some((call) => Array.isArray(call.results))) return undefined;
+
+  return calls
+    .flatMap((call) => call.results || [])
+    .map((r: any) => ({
+      fileId: r.file_id,
+      filename: r.filename,
+      score: r.score,
+      text: r.text,
+      attributes: r.attributes,
+    }))
+    .sort((a: RetrievedChunk, b: RetrievedChunk) => (b.score ?? 0) - (a.score ?? 0));
+}
+
+/**
+ * Citations from file_citation annotations, numbered per distinct file.
+ */
+export function extractCitations(response: any, chunks?: RetrievedChunk[]): Citation[] {
+  const numbers = new Map<string, number>();
+  const citations: Citation[] = [];
+
+  for (const item of outputItems(response)) {
+    if (item?.type !== "message" || !Array.isArray(item.content)) continue;
+    for (const part of item.content) {
+      for (const annotation of Array.isArray(part?.annotations) ? part.annotations : []) {
+        if (annotation?.type !== "file_citation" || !annotation.file_id) continue;
+        if (!numbers.has(annotation.file_id)) numbers.set(annotation.file_id, numbers.size + 1);
+
+        const chunk = chunks?.find((c) => c.fileId === annotation.file_id && c.text);
+        citations.push({
+          number: numbers.get(annotation.file_id)!,
+          fileId: annotation.file_id,
+          filename: annotation.filename ?? chunk?.filename,
+          index: typeof annotation.index === "number" ? annotation.index : undefined,
+          ...(chunk?.text ? { quote: chunk.text.slice(0, QUOTE_MAX_CHARS) } : {}),
+        });
+      }
+    }
+  }
+  return citations;
+}
+
+/**
+ * Fill in vectorStoreId for citations and chunks.
+ */
+export async function resolveVectorStores(provenance: Provenance, vectorStoreIds: string[]): Promise<Provenance> {
+  if (vectorStoreIds.length === 0) return provenance;
+
+  const storeByFile = new Map<string, string | undefined>();
+  const fileIds = Array.from(
+    new Set([...provenance.citations.map((c) => c.fileId), ...(provenance.chunks || []).map((c) => c.fileId)])
+  );
+
+  if (vectorStoreIds.length === 1) {
+    fileIds.forEach((id) => storeByFile.set(id, vectorStoreIds[0]));
+  } else {
+    await Promise.all(
+      fileIds.map(async (fileId) => {
+        for (const vectorStoreId of vectorStoreIds) {
+          try {
+            await getVectorStoreFile(vectorStoreId, fileId);
+            storeByFile.set(fileId, vectorStoreId);
+            return;
+          } catch {
+            // not in this store
+          }
+        }
+      })
+    );
+  }
+
+  return {
+    citations: provenance.citations.map((c) => ({ ...c, vectorStoreId: storeByFile.get(c.fileId) })),
+    ...(provenance.chunks ? { chunks: provenance.chunks.map((c) => ({ ...c, vectorStoreId: storeByFile.get(c.fileId) })) } : {}),
+  };
+}
+
+/**
+ * Citations (and retrieved chunks when included) for a Responses API response.
+ */
+export async function responseProvenance(response: any): Promise<Provenance> {
+  const chunks = extractChunks(response);
+  const provenance: Provenance = { citations: extractCitations(response, chunks), ...(chunks ? { chunks } : {}) };
+  if (provenance.citations.length === 0 && !chunks?.length) return provenance;
+  return resolveVectorStores(provenance, searchedVectorStores(response));
+}
+
+/**
+ * Adds citations / chunks to the `final` event of an agent stream.
+ */
+export async function* withProvenance<E extends { type: string; data?: any }>(
+  events: AsyncIterable<E>
+): AsyncGenerator<E, void, unknown> {
+  for await (const event of events) {
+    if (event.type === "final") {
+      yield { ...event, data: { ...event.data, ...(await responseProvenance(event.data.raw)) } };
+    } else {
+      yield event;
+    }
+  }
+}
+
+/**
+ * Merge citations of several answers (fan-out branches) into one numbering.
+ */
+export function mergeCitations(sources: Array<{ branch: string; citations?: Citation[] }>): Citation[] {
+  const numbers = new Map<string, number>();
+  return sources.flatMap(({ branch, citations }) =>
+    (citations || []).map((c) => {
+      if (!numbers.has(c.fileId)) numbers.set(c.fileId, numbers.size + 1);
+      // Offsets refer to the branch answer, not the synthesized text
+      const { index: _index, ...rest } = c;
+      return { ...rest, number: numbers.get(c.fileId)!, branch };
+    })
+  );
+}
@@ -0,0 +1,147 @@
+import { v4 as uuidv4 } from "uuid";
+import { DEFAULT_MODEL, getOutputText, openai } from "../clients/openaiSdk";
+import { ConversationSession, SeedMessage, rebaseSession, turnMessages } from "./conversationManager";
+import { CompactionEvent, ConversationRecord, ConversationTurn, getConversation, updateConversation } from "./conversationStore";
+
+/**
+ * Context compaction for long conversations
+ * - Checked before each agent turn: when the turns on the current backing exceed COMPACTION_MAX_TURNS,
+ *   or the last turn's input tokens reach COMPACTION_MAX_TOKENS, older turns are folded into a rolling
+ *   summary (the previous summary plus the turns since)
+ * - The session moves to a fresh backing seeded with the summary and the last COMPACTION_KEEP_TURNS turns;
+ *   our conversation id stays the same
+ * - Each compaction is recorded in the conversation history (record.compactions) and returned so routes
+ *   can expose it in `raw.compaction`
+ */
+const COMPACTION_ENABLED = process.env.CONVERSATION_COMPACTION !== "false";
+const MAX_TURNS = Number(process.env.COMPACTION_MAX_TURNS || 40);
+const MAX_TOKENS = Number(process.env.COMPACTION_MAX_TOKENS || 100000);
+const KEEP_TURNS = Math.max(0, Number(process.env.COMPACTION_KEEP_TURNS || 6));
+const COMPACTION_MODEL = process.env.COMPACTION_MODEL || DEFAULT_MODEL;
+// Per-message cap in the summarization input, so one huge answer cannot crowd out the rest
+const MESSAGE_MAX_CHARS = 4000;
+
+const SUMMARY_INSTRUCTIONS = [
+  "You maintain a rolling summary of a conversation between a user and an assistant.",
+  "Update the previous summary (if any) with the new messages.",
+  "Keep facts, decisions, names, numbers, document references, open questions and the user's goals and preferences.",
+  "Drop pleasantries and repetition. Write plain prose or short bullet points, at most about 400 words.",
+  "Reply with the updated summary only.",
+].join(" ");
+
+export type CompactionResult = { session: ConversationSession; compaction?: CompactionEvent };
+
+// Compactions in progress, so concurrent requests for one conversation share it
+const inFlight = new Map<string, Promise<CompactionResult>>();
+
+function lastCompaction(record: ConversationRecord): CompactionEvent | undefined {
+  return record.compactions?.[record.compactions.length - 1];
+}
+
+/**
+ * Why the conversation should be compacted now, if it should (`force`: whenever there is something to summarize).
+ */
+export function compactionReason(record: ConversationRecord, force = false): CompactionEvent["reason"] | undefined {
+  const summarizedThrough = lastCompaction(record)?.summarizedThrough ?? 0;
+  const inContext = record.turns.length - summarizedThrough;
+  // Nothing to fold into the summary beyond the turns that are kept anyway
+  if (inContext <= KEEP_TURNS) return undefined;
+  if (force) return "manual";
+  if (MAX_TURNS > 0 && inContext > MAX_TURNS) return "turns";
+  const inputTokens = record.turns[record.turns.length - 1]?.usage?.input_tokens;
+  if (MAX_TOKENS > 0 && inputTokens !== undefined && inputTokens >= MAX_TOKENS) return "tokens";
+  return undefined;
+}
+
+function clip(text: string): string {
+  return text.length > MESSAGE_MAX_CHARS ? `${text.slice(0, MESSAGE_MAX_CHARS)}…` : text;
+}
+
+async function summarize(previous: string | undefined, turns: ConversationTurn[]): Promise<string> {
+  const transcript = turnMessages(turns)
+    .map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${clip(m.content)}`)
+    .join("\n\n");
+  const resp = await openai.responses.create({
+    model: COMPACTION_MODEL,
+    instructions: SUMMARY_INSTRUCTIONS,
+    input: `Previous summary:\n${previous || "(none)"}\n\nNew messages:\n${transcript}`,
+    store: false,
+  });
+  return getOutputText(resp).trim();
+}
+
+function summaryMessage(summary: string): SeedMessage {
+  return {
+    role: "developer",
+    content: `Summary of the earlier part of this conversation (older messages were compacted):\n\n${summary}`,
+  };
+}
+
+async function compact(
+  session: ConversationSession,
+  record: ConversationRecord,
+  reason: CompactionEvent["reason"]
+): Promise<CompactionResult> {
+  const previous = lastCompaction(record);
+  const from = previous?.summarizedThrough ?? 0;
+  const summarizedThrough = record.turns.length - KEEP_TURNS;
+  const last = record.turns[record.turns.length - 1];
+  const kept = record.turns.slice(summarizedThrough);
+
+  const summary = await summarize(previous?.summary, record.turns.slice(from, summarizedThrough));
+  const rebased = await rebaseSession(session, [summaryMessage(summary), ...turnMessages(kept)]);
+
+  const compaction: CompactionEvent = {
+    id: `cmp_${uuidv4().replace(/-/g, "")}`,
+    at: new Date().toISOString(),
+    reason,
+    beforeTurn: record.turns.length,
+    summarizedThrough,
+    summarizedTurns: summarizedThrough - from,
+    keptTurns: kept.length,
+    ...(last?.usage ? { inputTokens: last.usage.input_tokens } : {}),
+    ...(record.backing ? { previousBacking: { mode: record.backing.mode, conversationId: record.backing.conversationId } } : {}),
+    backing: { mode: rebased.mode, ...(rebased.conversationId ? { conversationId: rebased.conversationId } : {}) },
+    summary,
+  };
+  await updateConversation(session.id, (r) => {
+    r.compactions = [...(r.compactions || []), compaction];
+  });
+  console.log(
+    `🗜️ [COMPACTION] ${session.id}: ${compaction.summarizedTurns} turn(s) summarized, ${compaction.keptTurns} kept (${reason})`
+  );
+  return { session: rebased, compaction };
+}
+
+/**
+ * Compact the session's context when it is over the thresholds (or always, with `force`).
+ * Failures are logged and the turn continues on the current backing; forced compactions rethrow them.
+ */
+export async function compactIfNeeded(
+  session: ConversationSession,
+  { force = false }: { force?: boolean } = {}
+): Promise<CompactionResult> {
+  if (!COMPACTION_ENABLED && !force) return { session };
+  const pending = inFlight.get(session.id);
+  if (pending) return pending;
+
+  const run = (async (): Promise<CompactionResult> => {
+    const record = await getConversation(session.id);
+    if (!record) return { session };
+    const reason = compactionReason(record, force);
+    if (!reason) return { session };
+    try {
+      return await compact(session, record, reason);
+    } catch (err) {
+      if (force) throw err;
+      console.error(`⚠️ [COMPACTION] ${session.id}: compaction failed, keeping the current context:`, err);
+      return { session };
+    }
+  })();
+  inFlight.set(session.id, run);
+  try {
+    return await run;
+  } finally {
+    inFlight.delete(session.id);
+  }
+}
@@ -0,0 +1,185 @@
+import { z } from "zod";
+import { SupervisorDecisionSchema } from "../agents/types";
+import type { CompactionEvent, ConversationRecord, ConversationTurn, NewTurn } from "./conversationStore";
+
+/**
+ * Conversation export / import
+ * - JSON export: the stored history (turns with transcripts, routing decisions, citations, timestamps)
+ *   in a versioned envelope; it is also the import format
+ * - Markdown export: a human-readable transcript for hand-off and archiving, with context compactions
+ *   shown where they happened
+ */
+export const EXPORT_FORMAT = "conversation-export";
+export const EXPORT_VERSION = 1;
+
+export type ConversationExport = {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  conversation: Omit<ConversationRecord, "backing">;
+};
+
+export function exportConversation(record: ConversationRecord): ConversationExport {
+  const { backing: _backing, ...conversation } = record;
+  return { format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: new Date().toISOString(), conversation };
+}
+
+// ------------------------------------------------------------
+// Markdown
+// ------------------------------------------------------------
+function quote(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => (line ? `> ${line}` : ">"))
+    .join("\n");
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function utc(iso: string): string {
+  return iso.replace("T", " ").replace(/\.\d+Z$|Z$/, " UTC");
+}
+
+function turnMarkdown(turn: ConversationTurn, index: number): string {
+  const lines: string[] = [`## Turn ${index + 1} — ${utc(turn.startedAt)}`, ""];
+
+  if (turn.inputType === "audio") {
+    lines.push("**User** (audio, transcribed):", "", quote(turn.transcript || "(no transcript)"), "");
+  } else {
+    lines.push("**User:**", "", quote(turn.input || ""), "");
+  }
+
+  if (turn.routing) {
+    const { route, confidence, reason, query } = turn.routing;
+    const details = [confidence !== undefined ? `confidence ${confidence}` : "", oneLine(reason || "")].filter(Boolean).join(" — ");
+    lines.push(`**Routing:** \`${route}\`${details ? ` (${details})` : ""}`);
+    if (query) lines.push(`**Routed query:** ${oneLine(query)}`);
+    lines.push("");
+  }
+
+  const agent = turn.via ? `${turn.agent} (via ${turn.via})` : turn.agent;
+  if (turn.error) {
+    lines.push(`**${agent}** failed: ${turn.error}`, "");
+    if (turn.output) lines.push("Partial answer:", "", turn.output, "");
+  } else {
+    lines.push(`**${agent}:**`, "", turn.output, "");
+  }
+
+  if (turn.citations?.length) {
+    lines.push("**Sources:**", "");
+    for (const c of turn.citations) {
+      const name = c.filename ? `${c.filename} (\`${c.fileId}\`)` : `\`${c.fileId}\``;
+      lines.push(`${c.number}. ${name}${c.quote ? ` — “${oneLine(c.quote)}”` : ""}`);
+    }
+    lines.push("");
+  }
+
+  lines.push(`<sub>${[turn.responseId, `completed ${utc(turn.completedAt)}`].filter(Boolean).join(" · ")}</sub>`, "");
+  return lines.join("\n");
+}
+
+function compactionMarkdown(compaction: CompactionEvent): string {
+  const trigger = compaction.reason === "tokens" ? `${compaction.inputTokens} input tokens` : compaction.reason === "turns" ? "turn limit" : "manual";
+  return [
+    `> **Context compacted** (${trigger}, ${utc(compaction.at)}): ${compaction.summarizedTurns} earlier turn(s) summarized, last ${compaction.keptTurns} kept.`,
+    ">",
+    quote(compaction.summary),
+    "",
+  ].join("\n");
+}
+
+export function conversationMarkdown(record: ConversationRecord): string {
+  const header = [
+    `# ${record.title}`,
+    "",
+    `- Conversation: \`${record.id}\``,
+    `- Started: ${utc(record.createdAt)}`,
+    `- Last activity: ${utc(record.updatedAt)}`,
+    `- Turns: ${record.turns.length}`,
+    ...(record.importedFrom
+      ? [`- Imported from: ${record.importedFrom.id ? `\`${record.importedFrom.id}\`` : "an export"} (${utc(record.importedFrom.importedAt)})`]
+      : []),
+    `- Exported: ${utc(new Date().toISOString())}`,
+    "",
+  ];
+  const compactionsBefore = (index: number) =>
+    (record.compactions || []).filter((c) => c.beforeTurn === index).map(compactionMarkdown);
+  return [
+    ...header,
+    ...record.turns.map((turn, i) => ["---", "", ...compactionsBefore(i), turnMarkdown(turn, i)].join("\n")),
+    // Compacted after the last turn (manual compaction)
+    ...compactionsBefore(record.turns.length).map((c) => ["---", "", c].join("\n")),
+  ].join("\n");
+}
+
+// ------------------------------------------------------------
+// Import
+// ------------------------------------------------------------
+const CitationSchema = z
+  .object({
+    number: z.number().int().min(1),
+    fileId: z.string(),
+    filename: z.string().optional(),
+    index: z.number().int().optional(),
+    quote: z.string().optional(),
+    vectorStoreId: z.string().optional(),
+    branch: z.string().optional(),
+  })
+  .strip();
+
+const ImportedTurnSchema = z
+  .object({
+    inputType: z.enum(["text", "audio"]).default("text"),
+    input: z.string().optional(),
+    transcript: z.string().optional(),
+    routing: SupervisorDecisionSchema.optional(),
+    agent: z.string().min(1).default("imported"),
+    via: z.string().optional(),
+    output: z.string().default(""),
+    citations: z.array(CitationSchema).optional(),
+    responseId: z.string().optional(),
+    error: z.string().optional(),
+    startedAt: z.string().datetime().optional(),
+    completedAt: z.string().datetime().optional(),
+  })
+  .strip()
+  .refine((t) => (t.inputType === "audio" ? t.transcript !== undefined : t.input !== undefined), {
+    message: "text turns need `input`, audio turns need `transcript`",
+  });
+
+const ImportedConversationSchema = z.object({
+  id: z.string().optional(),
+  title: z.string().trim().min(1).max(200).optional(),
+  turns: z.array(ImportedTurnSchema).min(1).max(Number(process.env.CONVERSATION_IMPORT_MAX_TURNS || 500)),
+});
+
+/**
+ * Import body: a JSON export (envelope) or a bare `{ title?, turns: [...] }`.
+ */
+export const ConversationImportSchema = z.union([
+  z.object({
+    format: z.literal(EXPORT_FORMAT),
+    version: z.literal(EXPORT_VERSION),
+    exportedAt: z.string().optional(),
+    conversation: ImportedConversationSchema,
+  }),
+  ImportedConversationSchema,
+]);
+
+export type ConversationImport = z.output<typeof ConversationImportSchema>;
+
+/**
+ * Turns to store for an import; missing timestamps are set to now, keeping turn order.
+ */
+export function importedTurns(body: ConversationImport): { source: z.output<typeof ImportedConversationSchema>; turns: NewTurn[] } {
+  const source = "conversation" in body ? body.conversation : body;
+  const now = new Date().toISOString();
+  const turns = source.turns.map(({ startedAt, completedAt, ...turn }) => ({
+    ...turn,
+    startedAt: startedAt ?? completedAt ?? now,
+    completedAt: completedAt ?? startedAt ?? now,
+  }));
+  return { source, turns };
+}
@@ -0,0 +1,265 @@
+import OpenAI from "openai";
+import { v4 as uuidv4 } from "uuid";
+import { DEFAULT_MODEL, conversationExists, createConversation, openai } from "../clients/openaiSdk";
+import {
+  ConversationBacking,
+  ConversationRecord,
+  ConversationTurn,
+  NewTurn,
+  getConversation,
+  isConversationId,
+  recordTurn,
+  updateConversation,
+} from "./conversationStore";
+
+/**
+ * Conversation manager
+ * - Our conversation ids (conv_*) are the session ids clients keep and the local store is keyed by;
+ *   each maps to its server-side state (record.backing in services/conversationStore.ts)
+ * - A new session gets a real OpenAI conversation and uses that id as its own; its backing is kept in
+ *   memory and saved with its first turn (recordSessionTurn), so sessions without turns leave no record
+ * - Backing conversations are validated (at most every CONVERSATION_VALIDATE_TTL_MS) and replaced
+ *   with a fresh one when they no longer exist; the session id stays the same
+ * - When conversations are unavailable (OPENAI_CONVERSATIONS=false, or creating one fails) sessions
+ *   chain turns with previous_response_id from their last stored response instead
+ * - Sessions can be seeded with earlier messages (imports) or moved to a fresh, seeded backing
+ *   (compaction) before their next turn
+ */
+const CONVERSATIONS_ENABLED = process.env.OPENAI_CONVERSATIONS !== "false";
+const VALIDATE_TTL_MS = Number(process.env.CONVERSATION_VALIDATE_TTL_MS || 10 * 60 * 1000);
+// After a failed create, skip the Conversations API for this long
+const RETRY_AFTER_MS = Number(process.env.CONVERSATION_RETRY_AFTER_MS || 5 * 60 * 1000);
+// Conversation items API limit per call
+const ITEMS_PER_CALL = 20;
+
+export type ConversationSession = {
+  // Our id: returned to clients and used for the local history
+  id: string;
+  mode: ConversationBacking["mode"];
+  // Backing OpenAI conversation id to pass to agents ("" in chained mode)
+  conversationId: string;
+  // Response to chain from (chained mode only; the API rejects it together with a conversation)
+  previousResponseId?: string;
+  // The backing conversation was replaced; server-side history before this turn is gone
+  refreshed?: boolean;
+};
+
+// backing conversation id -> time of its last successful validation
+const validatedAt = new Map<string, number>();
+// session id -> backing of a session that has no stored record yet
+const pendingBackings = new Map<string, ConversationBacking>();
+let unavailableSince: number | undefined;
+
+function newLocalId(): string {
+  return `conv_${uuidv4().replace(/-/g, "")}`;
+}
+
+function conversationsAvailable(): boolean {
+  if (!CONVERSATIONS_ENABLED) return false;
+  return unavailableSince === undefined || Date.now() - unavailableSince > RETRY_AFTER_MS;
+}
+
+// A new server-side conversation, or undefined when the Conversations API is unavailable
+async function tryCreate(sessionId?: string): Promise<string | undefined> {
+  if (!conversationsAvailable()) return undefined;
+  try {
+    const id = await createConversation(sessionId ? { session_id: sessionId } : undefined);
+    unavailableSince = undefined;
+    validatedAt.set(id, Date.now());
+    return id;
+  } catch (err) {
+    console.warn("⚠️ [CONVERSATIONS] Creating a conversation failed, chaining with previous_response_id:", errorMessage(err));
+    unavailableSince = Date.now();
+    return undefined;
+  }
+}
+
+// true / false when known, undefined when the check itself failed
+async function stillExists(conversationId: string): Promise<boolean | undefined> {
+  const last = validatedAt.get(conversationId);
+  if (last !== undefined && Date.now() - last < VALIDATE_TTL_MS) return true;
+  try {
+    const exists = await conversationExists(conversationId);
+    if (exists) validatedAt.set(conversationId, Date.now());
+    else validatedAt.delete(conversationId);
+    return exists;
+  } catch (err) {
+    console.warn(`⚠️ [CONVERSATIONS] Could not validate ${conversationId}:`, errorMessage(err));
+    return undefined;
+  }
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// Sessions without a record keep their backing in memory until their first turn is recorded
+async function setBacking(
+  id: string,
+  record: ConversationRecord | undefined,
+  backing: Omit<ConversationBacking, "updatedAt">
+): Promise<void> {
+  const stamped = { ...backing, updatedAt: new Date().toISOString() };
+  if (!record) {
+    pendingBackings.set(id, stamped);
+    return;
+  }
+  pendingBackings.delete(id);
+  await updateConversation(id, (r) => {
+    r.backing = stamped;
+  });
+}
+
+async function bind(
+  id: string,
+  record: ConversationRecord | undefined,
+  backing: Omit<ConversationBacking, "updatedAt">
+): Promise<void> {
+  const current = record?.backing ?? pendingBackings.get(id);
+  const unchanged = current?.mode === backing.mode && current.conversationId === backing.conversationId;
+  // A pending backing is saved as soon as the record exists (e.g. after an import)
+  if (unchanged && (!record || record.backing)) return;
+  await setBacking(id, record, backing);
+}
+
+function conversationSession(id: string, conversationId: string, refreshed = false): ConversationSession {
+  return { id, mode: "conversation", conversationId, ...(refreshed ? { refreshed } : {}) };
+}
+
+function chainedSession(id: string, previousResponseId?: string): ConversationSession {
+  return { id, mode: "chained", conversationId: "", ...(previousResponseId ? { previousResponseId } : {}) };
+}
+
+/**
+ * Resolve the session for an agent request.
+ * `requestedId` is the client's conversationId (anything that is not a conv_ id starts a new session);
+ * `previousResponseId` overrides the stored last response when chaining.
+ */
+export async function openSession(requestedId?: unknown, previousResponseId?: string): Promise<ConversationSession> {
+  if (!isConversationId(requestedId)) {
+    const backingId = await tryCreate();
+    const id = backingId ?? newLocalId();
+    await setBacking(id, undefined, backingId ? { mode: "conversation", conversationId: backingId } : { mode: "chained" });
+    return backingId ? conversationSession(id, backingId) : chainedSession(id, previousResponseId);
+  }
+
+  const id = requestedId;
+  const record = await getConversation(id);
+  const chainFrom = previousResponseId || record?.lastResponseId;
+  const backing = record?.backing ?? pendingBackings.get(id);
+
+  // Chained sessions stay chained: a new conversation would not carry their history
+  if (backing?.mode === "chained" || !CONVERSATIONS_ENABLED) {
+    if (!backing) await bind(id, record, { mode: "chained" });
+    return chainedSession(id, chainFrom);
+  }
+
+  // Backing conversation (our own, or the id itself for sessions created elsewhere or before the manager)
+  const candidate = backing?.conversationId ?? id;
+  const exists = await stillExists(candidate);
+  if (exists === undefined) {
+    // Could not check: keep a known backing, otherwise chain
+    if (backing) return conversationSession(id, candidate);
+    await bind(id, record, { mode: "chained" });
+    return chainedSession(id, chainFrom);
+  }
+  if (exists) {
+    await bind(id, record, { mode: "conversation", conversationId: candidate });
+    return conversationSession(id, candidate);
+  }
+
+  // Gone (expired, deleted, or never created server-side). Unknown sessions with stored responses
+  // keep their context by chaining; otherwise a fresh conversation replaces the old one.
+  if (!backing && chainFrom) {
+    await bind(id, record, { mode: "chained" });
+    return chainedSession(id, chainFrom);
+  }
+  const replacement = await tryCreate(id);
+  if (!replacement) {
+    await bind(id, record, { mode: "chained" });
+    return chainedSession(id, chainFrom);
+  }
+  if (backing) console.log(`🔄 [CONVERSATIONS] ${id}: backing conversation ${candidate} replaced by ${replacement}`);
+  await bind(id, record, { mode: "conversation", conversationId: replacement });
+  return conversationSession(id, replacement, !!backing);
+}
+
+/**
+ * Called when an agent request failed: a 404 may mean the backing conversation is gone,
+ * so it is re-validated on the next turn.
+ */
+export function reportSessionError(session: ConversationSession, err: unknown): void {
+  if (session.mode === "conversation" && err instanceof OpenAI.APIError && err.status === 404) {
+    validatedAt.delete(session.conversationId);
+  }
+}
+
+/**
+ * Append a turn to the session's record; the first turn also saves the backing of a new session.
+ */
+export async function recordSessionTurn(sessionId: string, turn: NewTurn): Promise<ConversationTurn> {
+  const backing = pendingBackings.get(sessionId);
+  const stored = await recordTurn(sessionId, turn, backing);
+  if (backing && pendingBackings.get(sessionId) === backing) pendingBackings.delete(sessionId);
+  return stored;
+}
+
+export type SeedMessage = { role: "user" | "assistant" | "developer"; content: string };
+
+/**
+ * Messages replaying stored turns: the user's input (or audio transcript), then the answer.
+ * Failed turns without output contribute only the user message.
+ */
+export function turnMessages(turns: Array<Omit<ConversationTurn, "id">>): SeedMessage[] {
+  return turns.flatMap((turn): SeedMessage[] => {
+    const said = (turn.inputType === "audio" ? turn.transcript : turn.input) || "";
+    return [
+      ...(said ? [{ role: "user" as const, content: said }] : []),
+      ...(turn.output ? [{ role: "assistant" as const, content: turn.output }] : []),
+    ];
+  });
+}
+
+/**
+ * Put `messages` into the session's server-side context ahead of its next turn.
+ * Conversation mode adds them as conversation items; chained mode stores them with one short
+ * response (no tools) and chains from it, since previous_response_id needs a stored response.
+ */
+export async function seedSession(session: ConversationSession, messages: SeedMessage[]): Promise<ConversationSession> {
+  if (!messages.length) return session;
+  const items = messages.map((m) => ({ type: "message" as const, role: m.role, content: m.content }));
+
+  if (session.mode === "conversation") {
+    for (let i = 0; i < items.length; i += ITEMS_PER_CALL) {
+      await openai.conversations.items.create(session.conversationId, { items: items.slice(i, i + ITEMS_PER_CALL) });
+    }
+    return session;
+  }
+
+  const resp = await openai.responses.create({
+    model: DEFAULT_MODEL,
+    instructions: "The input restores an earlier conversation so it can be continued. Reply only with: OK",
+    input: items,
+    max_output_tokens: 16,
+    store: true,
+    ...(session.previousResponseId ? { previous_response_id: session.previousResponseId } : {}),
+  });
+  await updateConversation(session.id, (record) => {
+    record.lastResponseId = resp.id;
+  });
+  return { ...session, previousResponseId: resp.id };
+}
+
+/**
+ * Move the session to a fresh backing seeded with `messages`; the session id stays the same.
+ * Conversation mode gets a new conversation (or a fresh chain when none can be created);
+ * chained mode starts a new chain. The old backing stays in place if seeding fails.
+ */
+export async function rebaseSession(session: ConversationSession, messages: SeedMessage[]): Promise<ConversationSession> {
+  const record = await getConversation(session.id);
+  const conversationId = session.mode === "conversation" ? await tryCreate(session.id) : undefined;
+  const fresh = conversationId ? conversationSession(session.id, conversationId) : chainedSession(session.id);
+  const seeded = await seedSession(fresh, messages);
+  await bind(session.id, record, conversationId ? { mode: "conversation", conversationId } : { mode: "chained" });
+  return seeded;
+}
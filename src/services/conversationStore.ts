@@ -0,0 +1,263 @@
+import fs from "fs";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import type { ListPage, ListParams } from "../clients/azureOpenAI";
+import type { SupervisorDecision } from "../agents/types";
+import type { Citation } from "./citations";
+
+/**
+ * Local conversation store
+ * - One JSON file per conversation in CONVERSATIONS_DIR (default data/conversations)
+ * - Every agent turn is appended: input (or audio transcript), routing decision, answering agent,
+ *   output text, citations, response id and timestamps
+ * - Writes to the same conversation are serialized and atomic (temp file + rename)
+ */
+export const CONVERSATIONS_DIR = path.resolve(process.env.CONVERSATIONS_DIR || "data/conversations");
+
+// conv_ ids are used as file names; anything else is rejected
+const ID_PATTERN = /^conv_[A-Za-z0-9_-]{1,128}$/;
+const TITLE_MAX_CHARS = 80;
+
+export type ConversationTurn = {
+  id: string;
+  inputType: "text" | "audio";
+  // Text input (text turns)
+  input?: string;
+  // Whisper transcript (audio turns)
+  transcript?: string;
+  // Supervisor routing decision, when the supervisor routed the turn
+  routing?: SupervisorDecision;
+  // Agent that produced the answer (the routed sub-agent for supervisor turns)
+  agent: string;
+  // Agent the request was sent to, when different (e.g. "supervisor")
+  via?: string;
+  output: string;
+  citations?: Citation[];
+  responseId?: string;
+  // Token usage of the answering response (input_tokens ~ context size at that turn)
+  usage?: { input_tokens: number; output_tokens: number; total_tokens: number };
+  // Set instead of output when the turn failed
+  error?: string;
+  startedAt: string;
+  completedAt: string;
+};
+
+// Server-side state behind a conversation id (see services/conversationManager.ts)
+export type ConversationBacking = {
+  // "conversation": turns go to an OpenAI conversation; "chained": previous_response_id chaining
+  mode: "conversation" | "chained";
+  // OpenAI conversation id (mode "conversation"); may differ from our id after a refresh
+  conversationId?: string;
+  updatedAt: string;
+};
+
+// A context compaction (see services/compaction.ts)
+export type CompactionEvent = {
+  id: string;
+  at: string;
+  reason: "turns" | "tokens" | "manual";
+  // Index of the first turn answered on the compacted context
+  beforeTurn: number;
+  // Turns before this index are covered by the summary
+  summarizedThrough: number;
+  // Turns newly folded into the summary by this compaction
+  summarizedTurns: number;
+  // Most recent turns replayed verbatim after the summary
+  keptTurns: number;
+  // Context size that triggered it (input tokens of the last turn)
+  inputTokens?: number;
+  previousBacking?: Omit<ConversationBacking, "updatedAt">;
+  backing: Omit<ConversationBacking, "updatedAt">;
+  summary: string;
+};
+
+export type ConversationRecord = {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  // Last response id, to chain a continued conversation with previous_response_id
+  lastResponseId?: string;
+  backing?: ConversationBacking;
+  // Set when the conversation was seeded from an export (POST /conversations/import)
+  importedFrom?: { id?: string; exportedAt?: string; importedAt: string };
+  // Context compactions, oldest first; the last one holds the current rolling summary
+  compactions?: CompactionEvent[];
+  turns: ConversationTurn[];
+};
+
+export type ConversationSummary = Omit<ConversationRecord, "turns" | "backing" | "compactions"> & {
+  turnCount: number;
+  lastAgent?: string;
+  preview?: string;
+};
+
+export type NewTurn = Omit<ConversationTurn, "id">;
+
+export function isConversationId(id: unknown): id is string {
+  return typeof id === "string" && ID_PATTERN.test(id);
+}
+
+function fileFor(conversationId: string): string {
+  if (!isConversationId(conversationId)) {
+    throw new Error(`Invalid conversation id: ${conversationId}`);
+  }
+  return path.join(CONVERSATIONS_DIR, `${conversationId}.json`);
+}
+
+export async function getConversation(conversationId: string): Promise<ConversationRecord | undefined> {
+  if (!isConversationId(conversationId)) return undefined;
+  try {
+    return JSON.parse(await fs.promises.readFile(fileFor(conversationId), "utf8"));
+  } catch (err: any) {
+    if (err?.code === "ENOENT") return undefined;
+    throw err;
+  }
+}
+
+async function writeConversation(record: ConversationRecord): Promise<void> {
+  await fs.promises.mkdir(CONVERSATIONS_DIR, { recursive: true });
+  const file = fileFor(record.id);
+  const tmp = `${file}.${process.pid}.${uuidv4()}.tmp`;
+  await fs.promises.writeFile(tmp, JSON.stringify(record, null, 2));
+  await fs.promises.rename(tmp, file);
+}
+
+// conversationId -> tail of its write queue
+const queues = new Map<string, Promise<unknown>>();
+
+function serialized<T>(conversationId: string, fn: () => Promise<T>): Promise<T> {
+  const next = (queues.get(conversationId) || Promise.resolve()).catch(() => undefined).then(fn);
+  queues.set(conversationId, next);
+  next.finally(() => queues.get(conversationId) === next && queues.delete(conversationId)).catch(() => undefined);
+  return next;
+}
+
+function titleFrom(turn: NewTurn): string {
+  const text = (turn.input ?? turn.transcript ?? "").replace(/\s+/g, " ").trim();
+  if (!text) return turn.inputType === "audio" ? "Voice conversation" : "Conversation";
+  return text.length > TITLE_MAX_CHARS ? `${text.slice(0, TITLE_MAX_CHARS - 1)}…` : text;
+}
+
+function newTurnId(): string {
+  return `turn_${uuidv4().replace(/-/g, "")}`;
+}
+
+function emptyRecord(conversationId: string, createdAt: string): ConversationRecord {
+  return { id: conversationId, title: "Conversation", createdAt, updatedAt: createdAt, turns: [] };
+}
+
+/**
+ * Append a turn, creating the conversation on its first turn. `backing` is set when the record has none.
+ */
+export function recordTurn(conversationId: string, turn: NewTurn, backing?: ConversationBacking): Promise<ConversationTurn> {
+  return serialized(conversationId, async () => {
+    const record = (await getConversation(conversationId)) || emptyRecord(conversationId, turn.startedAt);
+    if (!record.turns.length) record.title = titleFrom(turn);
+    if (backing && !record.backing) record.backing = backing;
+    const stored: ConversationTurn = { id: newTurnId(), ...turn };
+    record.turns.push(stored);
+    record.updatedAt = turn.completedAt;
+    if (turn.responseId) record.lastResponseId = turn.responseId;
+    await writeConversation(record);
+    return stored;
+  });
+}
+
+/**
+ * Add earlier turns (from an import) to a conversation; the title comes from the first turn unless given.
+ */
+export function importTurns(
+  conversationId: string,
+  turns: NewTurn[],
+  { title, importedFrom }: { title?: string; importedFrom: ConversationRecord["importedFrom"] }
+): Promise<ConversationRecord> {
+  return updateConversation(conversationId, (record) => {
+    if (!turns.length) return;
+    if (!record.turns.length) {
+      record.title = title || titleFrom(turns[0]);
+      record.createdAt = turns[0].startedAt;
+    }
+    record.turns.push(...turns.map((turn) => ({ id: newTurnId(), ...turn })));
+    record.updatedAt = new Date().toISOString();
+    record.importedFrom = importedFrom;
+  });
+}
+
+/**
+ * Apply `update` to a conversation (created empty if needed) and save it.
+ */
+export function updateConversation(
+  conversationId: string,
+  update: (record: ConversationRecord) => void
+): Promise<ConversationRecord> {
+  return serialized(conversationId, async () => {
+    const record = (await getConversation(conversationId)) || emptyRecord(conversationId, new Date().toISOString());
+    update(record);
+    await writeConversation(record);
+    return record;
+  });
+}
+
+export function summarize(record: ConversationRecord): ConversationSummary {
+  const { turns, backing: _backing, compactions: _compactions, ...rest } = record;
+  const last = turns[turns.length - 1];
+  return {
+    ...rest,
+    turnCount: turns.length,
+    lastAgent: last?.agent,
+    preview: last?.output?.slice(0, 160),
+  };
+}
+
+/**
+ * Stored conversations with at least one turn, most recently updated first (order=asc for oldest first).
+ * after / before are conversation ids (cursor) like the OpenAI list endpoints.
+ */
+export async function listConversations({ after, before, limit = 20, order = "desc" }: ListParams = {}): Promise<
+  ListPage<ConversationSummary>
+> {
+  let names: string[];
+  try {
+    names = (await fs.promises.readdir(CONVERSATIONS_DIR)).filter((n) => n.endsWith(".json"));
+  } catch (err: any) {
+    if (err?.code !== "ENOENT") throw err;
+    names = [];
+  }
+
+  const records = await Promise.all(names.map((n) => getConversation(n.slice(0, -".json".length)).catch(() => undefined)));
+  const sorted = records
+    .filter((r): r is ConversationRecord => !!r && r.turns.length > 0)
+    .map(summarize)
+    .sort((a, b) => (order === "asc" ? 1 : -1) * a.updatedAt.localeCompare(b.updatedAt));
+
+  let start = 0;
+  let end = sorted.length;
+  if (after) start = sorted.findIndex((c) => c.id === after) + 1;
+  if (before) {
+    const index = sorted.findIndex((c) => c.id === before);
+    if (index >= 0) end = index;
+    if (!after) start = Math.max(0, end - limit);
+  }
+  const data = sorted.slice(start, end).slice(0, limit);
+  return {
+    object: "list",
+    data,
+    first_id: data[0]?.id ?? null,
+    last_id: data[data.length - 1]?.id ?? null,
+    has_more: start + data.length < end,
+  };
+}
+
+export function deleteConversation(conversationId: string): Promise<boolean> {
+  if (!isConversationId(conversationId)) return Promise.resolve(false);
+  return serialized(conversationId, async () => {
+    try {
+      await fs.promises.unlink(fileFor(conversationId));
+      return true;
+    } catch (err: any) {
+      if (err?.code === "ENOENT") return false;
+      throw err;
+    }
+  });
+}
@@ -0,0 +1,105 @@
+import { z } from "zod";
+
+/**
+ * file_search retrieval options shared by the rag agent, configured agents and /chat
+ * - Per-file attributes (set on upload) can be filtered with comparison filters
+ *   ({ type: "eq" | "ne" | "gt" | "gte" | "lt" | "lte" | "in" | "nin", key, value })
+ *   combined with { type: "and" | "or", filters: [...] }
+ * - maxNumResults (1-50) and rankingOptions map to the file_search tool fields
+ * - includeChunks requests the retrieved chunks (include: ["file_search_call.results"])
+ */
+
+// Vector store file attributes: up to 16 keys, 64-char keys, 512-char string values
+export const AttributeValueSchema = z.union([z.string().max(512), z.number(), z.boolean()]);
+export const FileAttributesSchema = z
+  .record(z.string().min(1).max(64), AttributeValueSchema)
+  .refine((a) => Object.keys(a).length <= 16, "attributes support at most 16 keys");
+export type FileAttributes = z.infer<typeof FileAttributesSchema>;
+
+const ScalarSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+export const ComparisonFilterSchema = z
+  .object({
+    type: z.enum(["eq", "ne", "gt", "gte", "lt", "lte", "in", "nin"]),
+    key: z.string().min(1),
+    value: z.union([ScalarSchema, z.array(z.union([z.string(), z.number()])).min(1)]),
+  })
+  .strict()
+  .refine((f) => (f.type === "in" || f.type === "nin") === Array.isArray(f.value), {
+    message: "in/nin filters take an array value; other comparisons take a single value",
+    path: ["value"],
+  });
+export type ComparisonFilter = z.infer<typeof ComparisonFilterSchema>;
+
+export type CompoundFilter = { type: "and" | "or"; filters: FileSearchFilter[] };
+export type FileSearchFilter = ComparisonFilter | CompoundFilter;
+
+export const FileSearchFilterSchema: z.ZodType<FileSearchFilter> = z.lazy(() =>
+  z.union([
+    ComparisonFilterSchema,
+    z.object({ type: z.enum(["and", "or"]), filters: z.array(FileSearchFilterSchema).min(1) }).strict(),
+  ])
+);
+
+export const RankingOptionsSchema = z
+  .object({
+    ranker: z.enum(["auto", "default-2024-11-15"]).optional(),
+    scoreThreshold: z.number().min(0).max(1).optional(),
+  })
+  .strict();
+
+export const FileSearchOptionsSchema = z.object({
+  filters: FileSearchFilterSchema.optional(),
+  maxNumResults: z.number().int().min(1).max(50).optional(),
+  rankingOptions: RankingOptionsSchema.optional(),
+  includeChunks: z.boolean().optional(),
+});
+export type FileSearchOptions = z.infer<typeof FileSearchOptionsSchema>;
+
+/**
+ * Pick and validate the retrieval options from agent params / request bodies (throws ZodError).
+ */
+export function parseFileSearchOptions(source: Record<string, unknown> | undefined): FileSearchOptions {
+  return FileSearchOptionsSchema.parse({
+    filters: source?.filters,
+    maxNumResults: source?.maxNumResults,
+    rankingOptions: source?.rankingOptions,
+    includeChunks: source?.includeChunks,
+  });
+}
+
+/**
+ * Request `include` entries for the options (retrieved chunks).
+ */
+export function fileSearchInclude(options: FileSearchOptions): { include?: ["file_search_call.results"] } {
+  return options.includeChunks ? { include: ["file_search_call.results"] } : {};
+}
+
+/**
+ * Retrieval fields shared by the file_search tool and the vector store search API.
+ */
+export function retrievalParams({ filters, maxNumResults, rankingOptions }: FileSearchOptions = {}) {
+  return {
+    ...(filters ? { filters } : {}),
+    ...(maxNumResults !== undefined ? { max_num_results: maxNumResults } : {}),
+    ...(rankingOptions
+      ? {
+          ranking_options: {
+            ...(rankingOptions.ranker ? { ranker: rankingOptions.ranker } : {}),
+            ...(rankingOptions.scoreThreshold !== undefined ? { score_threshold: rankingOptions.scoreThreshold } : {}),
+          },
+        }
+      : {}),
+  };
+}
+
+/**
+ * Responses API file_search tool for the given stores and options.
+ */
+export function fileSearchTool(vectorStoreIds: string[], options: FileSearchOptions = {}) {
+  return {
+    type: "file_search" as const,
+    vector_store_ids: vectorStoreIds,
+    ...retrievalParams(options),
+  };
+}
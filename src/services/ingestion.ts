@@ -0,0 +1,296 @@
+import { z } from "zod";
+import {
+  uploadFile,
+  updateVectorStoreFileAttributes,
+  createVectorStoreFileBatch,
+  getVectorStoreFileBatch,
+  listVectorStoreFileBatchFiles,
+  removeFileFromVectorStore,
+  VectorStoreFile,
+  VectorStoreFileBatch,
+} from "../clients/azureOpenAI";
+import { PreprocessStepsSchema, preprocessFiles } from "../preprocessing";
+import { ChunkingStrategySchema, resolveChunkingStrategy } from "./chunking";
+import { FileAttributes, FileAttributesSchema } from "./fileSearch";
+import { contentHash, findDuplicate, forgetUpload, rememberUploads } from "./uploadIndex";
+
+/**
+ * Batch ingestion into a vector store
+ * - Uploads the files to the Files API, then attaches them with one vector store file batch
+ * - The batch id is the ingestion job id (GET /vector-stores/:id/ingestions/:jobId)
+ * - Progress is polled from the batch and its files until every file is completed or failed
+ * - Attributes: `attributes` apply to every file, `fileAttributes` (keyed by original filename) are merged per file
+ * - Duplicates: files are hashed (sha256) and compared with earlier uploads to the same store (see uploadIndex.ts);
+ *   onDuplicate "skip" reuses the existing file (setting the request's attributes on it, if any), "replace" uploads
+ *   and detaches the old copy, "keep" uploads anyway
+ * - Preprocessing (optional) runs before hashing, so duplicates are detected on the processed content
+ * - Files are chunked with the request's chunking_strategy, else the store default (see chunking.ts)
+ * - Each file's final attributes (request, per-file, import path and preprocessor attributes) are checked against
+ *   the vector store limits before anything is uploaded (IngestionError, 400)
+ */
+export const INGESTION_POLL_INTERVAL_MS = 1000;
+export const INGESTION_WAIT_TIMEOUT_MS = parseInt(process.env.INGESTION_WAIT_TIMEOUT_MS || "300000", 10);
+
+export type IngestionFileStatus = {
+  fileId: string;
+  filename?: string;
+  status: VectorStoreFile["status"];
+  lastError: VectorStoreFile["last_error"];
+  usageBytes?: number;
+  attributes?: FileAttributes | null;
+  chunkingStrategy?: VectorStoreFile["chunking_strategy"];
+};
+
+export type IngestionStatus = {
+  jobId: string;
+  vectorStoreId: string;
+  status: VectorStoreFileBatch["status"];
+  fileCounts: VectorStoreFileBatch["file_counts"];
+  files: IngestionFileStatus[];
+  // true once no file is still in_progress
+  done: boolean;
+};
+
+export class IngestionError extends Error {
+  constructor(message: string, public readonly status: number, public readonly details?: unknown) {
+    super(message);
+    this.name = "IngestionError";
+  }
+}
+
+// In-memory uploads carry a buffer, disk-stored uploads a path (see routes/uploads.ts);
+// attributes are this file's own attributes (bulk import sets the relative path)
+export type UploadedFile = { buffer?: Buffer; path?: string; originalname: string; mimetype?: string; attributes?: FileAttributes };
+
+// Files API uploads running at once per ingestion
+const UPLOAD_CONCURRENCY = 8;
+
+async function mapWithLimit<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// Multipart fields arrive as strings; JSON-decode them before validation
+const jsonField = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess((value) => {
+    if (typeof value !== "string") return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }, schema);
+
+// Upload form fields: attributes (JSON object), fileAttributes (JSON object: filename -> attributes)
+// onDuplicate (what to do with content already in the store, default skip) and preprocess (processor names or
+// { name, options }, see src/preprocessing)
+export const UploadOptionsSchema = z.object({
+  attributes: jsonField(FileAttributesSchema).optional(),
+  fileAttributes: jsonField(z.record(FileAttributesSchema)).optional(),
+  onDuplicate: z.enum(["skip", "replace", "keep"]).optional(),
+  preprocess: PreprocessStepsSchema.optional(),
+  // Overrides the store's default chunking strategy (see chunking.ts)
+  chunking_strategy: jsonField(ChunkingStrategySchema).optional(),
+});
+export type UploadOptions = z.infer<typeof UploadOptionsSchema>;
+
+// jobId -> fileId -> original filename (the batch API only knows file ids)
+const jobFilenames = new Map<string, Map<string, string>>();
+
+export type UploadOutcome = {
+  filename: string;
+  // sha256 of the content
+  hash: string;
+  // uploaded: new content; skipped: identical content already in the store (fileId is the existing file);
+  // replaced: uploaded and the previous copy detached; kept: uploaded although identical content exists
+  action: "uploaded" | "skipped" | "replaced" | "kept";
+  fileId: string;
+  duplicateOf?: string;
+  // Skipped files: the request's attributes were set on the existing file
+  attributesUpdated?: boolean;
+};
+
+/**
+ * Upload files and start a file batch. Returns the job id (undefined when every file was a skipped
+ * duplicate), the uploaded file ids and what happened to each file.
+ */
+export async function startIngestion(
+  vectorStoreId: string,
+  files: UploadedFile[],
+  { attributes, fileAttributes, onDuplicate = "skip", preprocess = [], chunking_strategy }: UploadOptions = {}
+): Promise<{ jobId?: string; uploadedFileIds: string[]; batch?: VectorStoreFileBatch; uploads: UploadOutcome[] }> {
+  // fileAttributes are keyed by the uploaded name; resolve them before preprocessing renames or splits files
+  const named = files.map((file) => {
+    const own = fileAttributes?.[file.originalname];
+    return own ? { ...file, attributes: { ...file.attributes, ...own } } : file;
+  });
+  files = await preprocessFiles(named, preprocess);
+
+  // Attributes as they will be set on each file (see below); the API only rejects them after the batch exists
+  const invalid = files
+    .map((file) => ({ filename: file.originalname, check: FileAttributesSchema.safeParse({ ...attributes, ...file.attributes }) }))
+    .filter(({ check }) => !check.success)
+    .map(({ filename, check }) => ({ filename, issues: check.error!.issues }));
+  if (invalid.length > 0) {
+    throw new IngestionError(`Invalid attributes for ${invalid.map((f) => f.filename).join(", ")}`, 400, invalid);
+  }
+
+  const hashes = await Promise.all(files.map((file) => contentHash(file)));
+  const existing = new Map(
+    await Promise.all(
+      Array.from(new Set(hashes)).map(async (hash) => [hash, await findDuplicate(vectorStoreId, hash)] as const)
+    )
+  );
+
+  // Decide per file; identical files within one request count as duplicates of the first copy
+  const firstCopy = new Map<string, number>();
+  const plan = files.map((file, i) => {
+    const hash = hashes[i];
+    const duplicateOf = existing.get(hash);
+    const inRequest = firstCopy.has(hash);
+    if (!inRequest) firstCopy.set(hash, i);
+
+    let action: UploadOutcome["action"] = "uploaded";
+    if (inRequest && onDuplicate !== "keep") action = "skipped";
+    else if (duplicateOf) action = onDuplicate === "skip" ? "skipped" : onDuplicate === "replace" ? "replaced" : "kept";
+    else if (inRequest) action = "kept";
+    return { file, hash, action, duplicateOf };
+  });
+
+  const toUpload = plan.filter((p) => p.action !== "skipped");
+  const uploaded = await mapWithLimit(toUpload, UPLOAD_CONCURRENCY, (p) => uploadFile(p.file));
+  const fileIdByHash = new Map<string, string>();
+  toUpload.forEach((p, i) => fileIdByHash.has(p.hash) || fileIdByHash.set(p.hash, uploaded[i].id));
+
+  const uploads: UploadOutcome[] = plan.map(({ file, hash, action, duplicateOf }) => {
+    // Skipped in-request copies share the first copy's upload; with replace, duplicateOf is being detached
+    const fileId =
+      action === "skipped" ? fileIdByHash.get(hash) ?? duplicateOf! : uploaded[toUpload.findIndex((p) => p.file === file)].id;
+    return { filename: file.originalname, hash, action, fileId, ...(duplicateOf ? { duplicateOf } : {}) };
+  });
+
+  // Skipped store duplicates keep their file, but take the attributes sent with this request
+  await Promise.all(
+    plan.map(async ({ file, action, duplicateOf }, i) => {
+      if (action !== "skipped" || !duplicateOf || firstCopy.get(hashes[i]) !== i) return;
+      if (!attributes && !file.attributes) return;
+      await updateVectorStoreFileAttributes(vectorStoreId, duplicateOf, { ...attributes, ...file.attributes });
+      uploads[i].attributesUpdated = true;
+    })
+  );
+
+  if (uploaded.length === 0) {
+    console.log(`📥 [INGESTION] Skipped ${files.length} duplicate file(s) on ${vectorStoreId}`);
+    return { uploadedFileIds: [], uploads };
+  }
+
+  const chunkingStrategy = await resolveChunkingStrategy(vectorStoreId, chunking_strategy);
+  const batch = await createVectorStoreFileBatch(vectorStoreId, uploaded.map((f) => f.id), attributes, chunkingStrategy);
+
+  // File batches take one attribute set; per-file attributes are applied to each file afterwards
+  await Promise.all(
+    uploaded.map((f, i) => {
+      const own = toUpload[i].file.attributes;
+      return own ? updateVectorStoreFileAttributes(vectorStoreId, f.id, { ...attributes, ...own }) : undefined;
+    })
+  );
+
+  // Replaced copies are detached from the store (their file objects are kept)
+  await Promise.all(
+    plan
+      .filter((p) => p.action === "replaced")
+      .map(async ({ duplicateOf }) => {
+        await removeFileFromVectorStore(vectorStoreId, duplicateOf!);
+        await forgetUpload(vectorStoreId, duplicateOf!);
+      })
+  );
+  await rememberUploads(
+    vectorStoreId,
+    uploaded.map((f, i) => ({ hash: toUpload[i].hash, fileId: f.id }))
+  );
+
+  jobFilenames.set(batch.id, new Map(uploaded.map((f, i) => [f.id, toUpload[i].file.originalname])));
+  const skipped = plan.length - toUpload.length;
+  console.log(
+    `📥 [INGESTION] Started ${batch.id} on ${vectorStoreId} (${uploaded.length} files${skipped ? `, ${skipped} duplicates skipped` : ""})`
+  );
+
+  return { jobId: batch.id, uploadedFileIds: uploaded.map((f) => f.id), batch, uploads };
+}
+
+/**
+ * Current status of an ingestion job with per-file status and errors.
+ */
+export async function getIngestionStatus(vectorStoreId: string, jobId: string): Promise<IngestionStatus> {
+  const batch = await getVectorStoreFileBatch(vectorStoreId, jobId);
+
+  const files: VectorStoreFile[] = [];
+  let after: string | undefined;
+  do {
+    const page = await listVectorStoreFileBatchFiles(vectorStoreId, jobId, { limit: 100, order: "asc", after });
+    files.push(...page.data);
+    after = page.has_more ? page.last_id || undefined : undefined;
+  } while (after);
+
+  const filenames = jobFilenames.get(jobId);
+  return {
+    jobId,
+    vectorStoreId,
+    status: batch.status,
+    fileCounts: batch.file_counts,
+    files: files.map((f) => ({
+      fileId: f.id,
+      filename: filenames?.get(f.id),
+      status: f.status,
+      lastError: f.last_error,
+      usageBytes: f.usage_bytes,
+      attributes: f.attributes,
+      chunkingStrategy: f.chunking_strategy,
+    })),
+    done: batch.status !== "in_progress" && batch.file_counts.in_progress === 0,
+  };
+}
+
+/**
+ * Poll an ingestion job, yielding a status snapshot each time it changes, until done or timed out.
+ * The last snapshot has done=false when the timeout was reached.
+ */
+export async function* watchIngestion(
+  vectorStoreId: string,
+  jobId: string,
+  { intervalMs = INGESTION_POLL_INTERVAL_MS, timeoutMs = INGESTION_WAIT_TIMEOUT_MS, signal }: { intervalMs?: number; timeoutMs?: number; signal?: AbortSignal } = {}
+): AsyncGenerator<IngestionStatus, void, unknown> {
+  const deadline = Date.now() + timeoutMs;
+  let previous = "";
+
+  while (true) {
+    const status = await getIngestionStatus(vectorStoreId, jobId);
+    const key = JSON.stringify([status.status, status.fileCounts, status.files.map((f) => f.status)]);
+    const finished = status.done || Date.now() >= deadline || signal?.aborted;
+    if (key !== previous || finished) yield status;
+    if (finished) return;
+    previous = key;
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+}
+
+/**
+ * Block until the job is done (or the timeout is reached) and return the last status.
+ */
+export async function waitForIngestion(
+  vectorStoreId: string,
+  jobId: string,
+  options: { intervalMs?: number; timeoutMs?: number } = {}
+): Promise<IngestionStatus> {
+  let last: IngestionStatus | undefined;
+  for await (const status of watchIngestion(vectorStoreId, jobId, options)) last = status;
+  return last!;
+}
@@ -1,7 +1,12 @@
 import { EventEmitter } from "events";
+import { OPENAI_BASE_URL, openaiUrl } from "../clients/config";
+import { conversationContext } from "../clients/openaiSdk";
+import { StreamEvent, decodeResponsesStream, readSSEFrames } from "./responsesStream";
 
 export interface RealtimeAudioConfig {
   apiKey: string;
+  // Defaults to OPENAI_API_BASE_URL (see clients/config.ts)
+  baseURL?: string;
   model?: string;
   voice?: string;
   inputAudioFormat?: string;
@@ -49,6 +54,7 @@ export class RealtimeAudioService extends EventEmitter {
   constructor(config: RealtimeAudioConfig) {
     super();
     this.config = {
+      baseURL: OPENAI_BASE_URL,
       model: "gpt-4o-realtime-preview-2025-06-03",
       voice: "alloy",
       inputAudioFormat: "pcm16",
@@ -121,7 +127,7 @@ export class RealtimeAudioService extends EventEmitter {
    */
   async createSession(): Promise<string> {
     try {
-      const response = await fetch("https://api.openai.com/v1/realtime/sessions", {
+      const response = await fetch(openaiUrl("/realtime/sessions", this.config.baseURL), {
         method: "POST",
         headers: {
           "Authorization": `Bearer ${this.config.apiKey}`,
@@ -165,11 +171,11 @@ export class RealtimeAudioService extends EventEmitter {
       formData.append("language", "en");
 
       console.log('🌐 [AUDIO_SERVICE] Sending request to OpenAI Whisper API');
-      console.log('🔗 [AUDIO_SERVICE] Endpoint: https://api.openai.com/v1/audio/transcriptions');
+      console.log(`🔗 [AUDIO_SERVICE] Endpoint: ${openaiUrl("/audio/transcriptions", this.config.baseURL)}`);
       console.log('🔑 [AUDIO_SERVICE] Using API key:', this.config.apiKey ? `${this.config.apiKey.substring(0, 10)}...` : 'NOT SET');
 
       const startTime = Date.now();
-      const response = await fetch("https://api.openai.com/v1/audio/transcriptions", {
+      const response = await fetch(openaiUrl("/audio/transcriptions", this.config.baseURL), {
         method: "POST",
         headers: {
           "Authorization": `Bearer ${this.config.apiKey}`,
@@ -230,7 +236,7 @@ export class RealtimeAudioService extends EventEmitter {
       previousResponseId?: string;
       instructions?: string;
     }
-  ): Promise<AsyncGenerator<{ type: string; data: any }, void, unknown>> {
+  ): Promise<AsyncGenerator<StreamEvent, void, unknown>> {
     console.log("[RealtimeAudioService] processTextWithContext called (direct, non-batch)");
     // Defensive: ensure batch state is not used
     if (this.batchAudioBuffer.length > 0) {
@@ -249,7 +255,7 @@ export class RealtimeAudioService extends EventEmitter {
       ] : undefined;
 
       // Use the Responses API with streaming
-      const response = await fetch("https://api.openai.com/v1/responses", {
+      const response = await fetch(openaiUrl("/responses", this.config.baseURL), {
         method: "POST",
         headers: {
           "Authorization": `Bearer ${this.config.apiKey}`,
@@ -260,12 +266,15 @@ export class RealtimeAudioService extends EventEmitter {
           input: text,
           instructions: context.instructions || "You are a helpful assistant.",
           tools,
+          // Same long-context semantics as the agents
+          ...conversationContext(context.conversationId, context.previousResponseId),
           stream: true,
         }),
       });
 
       if (!response.ok) {
-        throw new Error(`Responses API failed: ${response.status} ${response.statusText}`);
+        const errorText = await response.text();
+        throw new Error(`Responses API failed: ${response.status} ${response.statusText} - ${errorText}`);
       }
 
       return this.parseStreamingResponse(response);
@@ -276,60 +285,14 @@ export class RealtimeAudioService extends EventEmitter {
   }
 
   /**
-   * Parse streaming response from OpenAI API
+   * Parse streaming response from the Responses API into SSE events
    */
-  private async *parseStreamingResponse(response: Response): AsyncGenerator<{ type: string; data: any }, void, unknown> {
+  private async *parseStreamingResponse(response: Response): AsyncGenerator<StreamEvent, void, unknown> {
     if (!response.body) {
       throw new Error("No response body");
     }
 
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = "";
-
-    try {
-      while (true) {
-        const { value, done } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-
-        // Process complete lines
-        let newlineIndex;
-        while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
-          const line = buffer.slice(0, newlineIndex).trim();
-          buffer = buffer.slice(newlineIndex + 1);
-
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') {
-              return;
-            }
-
-            try {
-              const parsed = JSON.parse(data);
-              
-              // Handle different response types
-              if (parsed.choices?.[0]?.delta?.content) {
-                yield {
-                  type: "text_delta",
-                  data: { text: parsed.choices[0].delta.content }
-                };
-              } else if (parsed.choices?.[0]?.message?.content) {
-                yield {
-                  type: "final",
-                  data: { text: parsed.choices[0].message.content }
-                };
-              }
-            } catch (parseError) {
-              console.warn("Failed to parse streaming data:", parseError, data);
-            }
-          }
-        }
-      }
-    } finally {
-      reader.releaseLock();
-    }
+    yield* decodeResponsesStream(readSSEFrames(response.body));
   }
 
   /**
@@ -348,7 +311,7 @@ export class RealtimeAudioService extends EventEmitter {
     }
   ): Promise<{
     transcript: string;
-    responseStream: AsyncGenerator<{ type: string; data: any }, void, unknown>;
+    responseStream: AsyncGenerator<StreamEvent, void, unknown>;
   }> {
     // Step 1: Transcribe audio
     const transcript = await this.transcribeAudio(audioBuffer, mimeType);
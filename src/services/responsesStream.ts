@@ -0,0 +1,249 @@
+import type { Citation, RetrievedChunk } from "./citations";
+
+/**
+ * Responses API streaming decoder
+ * - Splits a `text/event-stream` body into SSE frames (multi-line `event:` / `data:` aware)
+ * - Decodes frames into typed `/v1/responses` streaming events
+ * - Maps those events onto the SSE events documented in routes/agents.ts
+ */
+
+export type ResponseUsage = {
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  input_tokens_details?: { cached_tokens?: number };
+  output_tokens_details?: { reasoning_tokens?: number };
+};
+
+export type ResponseSnapshot = {
+  id: string;
+  status?: string;
+  output?: any[];
+  usage?: ResponseUsage | null;
+  error?: { code?: string; message: string } | null;
+  [key: string]: unknown;
+};
+
+export type FileSearchCallStatus = "in_progress" | "searching" | "completed";
+
+// Subset of the Responses streaming protocol we act on
+export type ResponsesStreamEvent =
+  | { type: "response.created"; response: ResponseSnapshot }
+  | { type: "response.output_text.delta"; item_id: string; output_index: number; content_index: number; delta: string }
+  | { type: "response.output_text.done"; item_id: string; output_index: number; content_index: number; text: string }
+  | { type: `response.file_search_call.${FileSearchCallStatus}`; item_id: string; output_index: number }
+  | { type: "response.completed"; response: ResponseSnapshot }
+  | { type: "response.failed"; response: ResponseSnapshot }
+  | { type: "error"; code?: string | null; message: string; param?: string | null };
+
+// Events emitted to our own SSE clients
+export type StreamEvent =
+  | { type: "text_delta"; data: { text: string } }
+  | { type: "tool_call"; data: { tool: string; itemId: string; status: FileSearchCallStatus | "failed"; durationMs?: number } }
+  | { type: "usage"; data: ResponseUsage }
+  | { type: "final"; data: { text: string; responseId?: string; raw: any; citations?: Citation[]; chunks?: RetrievedChunk[] } }
+  | { type: "error"; data: { error: string; code?: string; responseId?: string } };
+
+export type SSEFrame = {
+  event?: string;
+  data: string;
+};
+
+const KNOWN_EVENT_TYPES = new Set<string>([
+  "response.created",
+  "response.output_text.delta",
+  "response.output_text.done",
+  "response.file_search_call.in_progress",
+  "response.file_search_call.searching",
+  "response.file_search_call.completed",
+  "response.completed",
+  "response.failed",
+  "error",
+]);
+
+/**
+ * Parse a single raw SSE frame (the text between two blank lines).
+ * Returns null for comment-only / empty frames.
+ */
+export function parseSSEFrame(raw: string): SSEFrame | null {
+  let event: string | undefined;
+  const dataLines: string[] = [];
+
+  for (const line of raw.split(/\r?\n/)) {
+    if (!line || line.startsWith(":")) continue;
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    if (field === "event") event = value;
+    else if (field === "data") dataLines.push(value);
+  }
+
+  if (dataLines.length === 0) return null;
+  return { event, data: dataLines.join("\n") };
+}
+
+/**
+ * Read SSE frames from a fetch response body.
+ */
+export async function* readSSEFrames(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEFrame, void, unknown> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      // Normalized on the whole buffer, so a CRLF split across chunks is still caught
+      buffer = (buffer + decoder.decode(value, { stream: true })).replace(/\r\n/g, "\n");
+
+      let idx;
+      while ((idx = buffer.indexOf("\n\n")) !== -1) {
+        const frame = parseSSEFrame(buffer.slice(0, idx));
+        buffer = buffer.slice(idx + 2);
+        if (frame) yield frame;
+      }
+    }
+
+    // Process any trailing frame not terminated by a blank line
+    buffer += decoder.decode();
+    const frame = parseSSEFrame(buffer);
+    if (frame) yield frame;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Decode an SSE frame into a typed Responses streaming event.
+ * Returns null for `[DONE]`, unparseable payloads and event types we do not handle.
+ */
+export function decodeResponsesEvent(frame: SSEFrame): ResponsesStreamEvent | null {
+  if (frame.data === "[DONE]") return null;
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(frame.data);
+  } catch (parseError) {
+    console.warn("Failed to parse streaming data:", parseError, frame.data);
+    return null;
+  }
+
+  const type = typeof parsed?.type === "string" ? parsed.type : frame.event;
+  if (!type || !KNOWN_EVENT_TYPES.has(type)) return null;
+
+  return { ...parsed, type } as ResponsesStreamEvent;
+}
+
+/**
+ * Stateful mapper from Responses streaming events to our SSE events.
+ * Tracks the output text so `final` can be emitted even when the
+ * completed response carries no convenience `output_text` field.
+ */
+export class ResponsesStreamMapper {
+  private responseId: string | undefined;
+  private deltaText = "";
+  private doneText: string[] = [];
+
+  map(event: ResponsesStreamEvent): StreamEvent[] {
+    switch (event.type) {
+      case "response.created":
+        this.responseId = event.response?.id;
+        return [];
+
+      case "response.output_text.delta":
+        this.deltaText += event.delta;
+        return [{ type: "text_delta", data: { text: event.delta } }];
+
+      case "response.output_text.done":
+        this.doneText.push(event.text);
+        return [];
+
+      case "response.file_search_call.in_progress":
+      case "response.file_search_call.searching":
+      case "response.file_search_call.completed":
+        return [
+          {
+            type: "tool_call",
+            data: {
+              tool: "file_search",
+              itemId: event.item_id,
+              status: event.type.slice("response.file_search_call.".length) as FileSearchCallStatus,
+            },
+          },
+        ];
+
+      case "response.completed": {
+        const response = event.response;
+        this.responseId = response?.id || this.responseId;
+        const out: StreamEvent[] = [];
+        if (response?.usage) out.push({ type: "usage", data: response.usage });
+        out.push({
+          type: "final",
+          data: { text: this.text(), responseId: this.responseId, raw: response },
+        });
+        return out;
+      }
+
+      case "response.failed":
+        return [
+          {
+            type: "error",
+            data: {
+              error: event.response?.error?.message || "Response failed",
+              code: event.response?.error?.code,
+              responseId: event.response?.id || this.responseId,
+            },
+          },
+        ];
+
+      case "error":
+        return [
+          {
+            type: "error",
+            data: { error: event.message, code: event.code || undefined, responseId: this.responseId },
+          },
+        ];
+
+      default:
+        return [];
+    }
+  }
+
+  private text(): string {
+    return this.doneText.length ? this.doneText.join("") : this.deltaText;
+  }
+}
+
+/**
+ * Map already-decoded Responses streaming events (e.g. from the OpenAI SDK's
+ * `responses.create({ stream: true })`) onto our SSE events.
+ */
+export async function* mapResponsesEvents(
+  events: AsyncIterable<{ type: string } | null>
+): AsyncGenerator<StreamEvent, void, unknown> {
+  const mapper = new ResponsesStreamMapper();
+  for await (const event of events) {
+    if (!event || !KNOWN_EVENT_TYPES.has(event.type)) continue;
+    yield* mapper.map(event as ResponsesStreamEvent);
+  }
+}
+
+/**
+ * Decode a whole Responses API stream into our SSE events.
+ */
+export async function* decodeResponsesStream(
+  frames: AsyncIterable<SSEFrame>
+): AsyncGenerator<StreamEvent, void, unknown> {
+  yield* mapResponsesEvents(decodeFrames(frames));
+}
+
+async function* decodeFrames(frames: AsyncIterable<SSEFrame>): AsyncGenerator<ResponsesStreamEvent | null, void, unknown> {
+  for await (const frame of frames) {
+    if (frame.data === "[DONE]") return;
+    yield decodeResponsesEvent(frame);
+  }
+}
@@ -0,0 +1,112 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import { getVectorStoreFile, toOpenAIApiError } from "../clients/azureOpenAI";
+import type { UploadedFile } from "./ingestion";
+
+/**
+ * Content-hash index of uploaded documents, per vector store
+ * - sha256 of the file content -> OpenAI file id attached to the store
+ * - Persisted to UPLOAD_INDEX_FILE (default data/upload-index.json) so re-uploads are still
+ *   recognized after a restart; writes are serialized and atomic (temp file + rename)
+ * - Entries are dropped when the file is removed from the store through this server,
+ *   and verified against the store before a duplicate is skipped
+ */
+export type DuplicatePolicy = "skip" | "replace" | "keep";
+
+export const UPLOAD_INDEX_FILE = path.resolve(process.env.UPLOAD_INDEX_FILE || "data/upload-index.json");
+
+// vectorStoreId -> content hash -> file id
+type UploadIndex = Map<string, Map<string, string>>;
+
+let loaded: Promise<UploadIndex> | undefined;
+let writes: Promise<unknown> = Promise.resolve();
+
+async function readIndex(): Promise<UploadIndex> {
+  try {
+    const stored: Record<string, Record<string, string>> = JSON.parse(await fs.promises.readFile(UPLOAD_INDEX_FILE, "utf8"));
+    return new Map(Object.entries(stored).map(([vectorStoreId, hashes]) => [vectorStoreId, new Map(Object.entries(hashes))]));
+  } catch (err: any) {
+    if (err?.code === "ENOENT") return new Map();
+    throw err;
+  }
+}
+
+function loadIndex(): Promise<UploadIndex> {
+  loaded ??= readIndex().catch((err) => {
+    loaded = undefined;
+    throw err;
+  });
+  return loaded;
+}
+
+async function writeIndex(index: UploadIndex): Promise<void> {
+  const stored = Object.fromEntries(Array.from(index, ([vectorStoreId, hashes]) => [vectorStoreId, Object.fromEntries(hashes)]));
+  await fs.promises.mkdir(path.dirname(UPLOAD_INDEX_FILE), { recursive: true });
+  const tmp = `${UPLOAD_INDEX_FILE}.${process.pid}.${uuidv4()}.tmp`;
+  await fs.promises.writeFile(tmp, JSON.stringify(stored, null, 2));
+  await fs.promises.rename(tmp, UPLOAD_INDEX_FILE);
+}
+
+// Apply a change and persist the whole index (one write at a time, each with the latest state)
+function updateIndex(mutate: (index: UploadIndex) => boolean | void): Promise<void> {
+  const next = writes
+    .catch(() => undefined)
+    .then(async () => {
+      const index = await loadIndex();
+      if (mutate(index) !== false) await writeIndex(index);
+    });
+  writes = next;
+  return next;
+}
+
+export async function contentHash(file: UploadedFile): Promise<string> {
+  const hash = crypto.createHash("sha256");
+  if (file.buffer) return hash.update(file.buffer).digest("hex");
+
+  for await (const chunk of fs.createReadStream(file.path!)) hash.update(chunk as Buffer);
+  return hash.digest("hex");
+}
+
+/**
+ * File id already attached to the store with this content, if it is still there and not failed.
+ */
+export async function findDuplicate(vectorStoreId: string, hash: string): Promise<string | undefined> {
+  const fileId = (await loadIndex()).get(vectorStoreId)?.get(hash);
+  if (!fileId) return undefined;
+  try {
+    const file = await getVectorStoreFile(vectorStoreId, fileId);
+    if (file.status !== "failed" && file.status !== "cancelled") return fileId;
+  } catch (err) {
+    // 404: removed outside this server
+    if (toOpenAIApiError(err).status !== 404) throw err;
+  }
+  await updateIndex((index) => {
+    if (index.get(vectorStoreId)?.get(hash) !== fileId) return false;
+    index.get(vectorStoreId)!.delete(hash);
+  });
+  return undefined;
+}
+
+export function rememberUploads(vectorStoreId: string, uploads: Array<{ hash: string; fileId: string }>): Promise<void> {
+  return updateIndex((index) => {
+    if (!index.has(vectorStoreId)) index.set(vectorStoreId, new Map());
+    for (const { hash, fileId } of uploads) index.get(vectorStoreId)!.set(hash, fileId);
+  });
+}
+
+export function forgetUpload(vectorStoreId: string, fileId: string): Promise<void> {
+  return updateIndex((index) => {
+    const hashes = index.get(vectorStoreId);
+    if (!hashes) return false;
+    const before = hashes.size;
+    for (const [hash, id] of hashes) if (id === fileId) hashes.delete(hash);
+    if (!hashes.size) index.delete(vectorStoreId);
+    return hashes.size !== before;
+  });
+}
+
+export function forgetVectorStore(vectorStoreId: string): Promise<void> {
+  return updateIndex((index) => index.delete(vectorStoreId));
+}
@@ -0,0 +1,55 @@
+import { z } from "zod";
+import { searchVectorStore } from "../clients/azureOpenAI";
+import { FileSearchOptionsSchema, retrievalParams } from "./fileSearch";
+import type { RetrievedChunk } from "./citations";
+
+/**
+ * Direct vector store search (retrieval only, no generation)
+ * - Calls POST /vector_stores/:id/search with the same filters / maxNumResults / rankingOptions as file_search
+ * - Several stores are searched in parallel and their chunks merged by score
+ */
+export const VectorSearchRequestSchema = FileSearchOptionsSchema.omit({ includeChunks: true }).extend({
+  query: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]),
+  // Let OpenAI rewrite the query for retrieval (the rewritten queries are returned as searchQueries)
+  rewriteQuery: z.boolean().optional(),
+});
+export type VectorSearchRequest = z.infer<typeof VectorSearchRequestSchema>;
+
+export type VectorSearchResult = {
+  query: string | string[];
+  // Queries actually run per store (differs from `query` when rewritten)
+  searchQueries: Record<string, string[]>;
+  results: Array<RetrievedChunk & { vectorStoreId: string; rank: number }>;
+};
+
+export async function searchVectorStores(vectorStoreIds: string[], request: VectorSearchRequest): Promise<VectorSearchResult> {
+  const { query, rewriteQuery, ...options } = request;
+  const body = {
+    query,
+    ...retrievalParams(options),
+    ...(rewriteQuery !== undefined ? { rewrite_query: rewriteQuery } : {}),
+  };
+
+  const pages = await Promise.all(vectorStoreIds.map((id) => searchVectorStore(id, body)));
+
+  const merged = pages
+    .flatMap((page, i) =>
+      page.data.map((hit) => ({
+        vectorStoreId: vectorStoreIds[i],
+        fileId: hit.file_id,
+        filename: hit.filename,
+        score: hit.score,
+        attributes: hit.attributes,
+        text: hit.content.map((part) => part.text).join("\n"),
+      }))
+    )
+    .sort((a, b) => b.score - a.score);
+  // Each store returns up to maxNumResults; keep that many overall
+  const limited = options.maxNumResults ? merged.slice(0, options.maxNumResults) : merged;
+
+  return {
+    query,
+    searchQueries: Object.fromEntries(pages.map((page, i) => [vectorStoreIds[i], page.search_query])),
+    results: limited.map((hit, i) => ({ ...hit, rank: i + 1 })),
+  };
+}
@@ -0,0 +1,18 @@
+import { z } from "zod";
+import { defineTool } from "./registry";
+
+export const currentTimeTool = defineTool({
+  name: "current_time",
+  description: "Returns the current date and time, optionally in a given IANA time zone (e.g. Europe/Paris).",
+  inputSchema: z.object({
+    timeZone: z.string().nullable(),
+  }),
+  async handler({ timeZone }) {
+    const now = new Date();
+    return {
+      iso: now.toISOString(),
+      local: now.toLocaleString("en-US", { timeZone: timeZone || "UTC" }),
+      timeZone: timeZone || "UTC",
+    };
+  },
+});
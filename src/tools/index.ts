@@ -0,0 +1,8 @@
+import { currentTimeTool } from "./builtin";
+import { registerTool } from "./registry";
+
+// Built-in tools
+registerTool(currentTimeTool);
+
+export * from "./registry";
+export * from "./types";
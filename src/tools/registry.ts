@@ -0,0 +1,57 @@
+import { zodResponsesFunction } from "openai/helpers/zod";
+import type { ToolDefinition } from "./types";
+
+/**
+ * Runtime tool registry
+ * - Tools are declared with a zod input schema and an async handler (see defineTool)
+ * - Agents enable tools by name (config `functions`, or params.functions per request)
+ */
+const tools = new Map<string, ToolDefinition>();
+
+export function defineTool<Schema extends ToolDefinition["inputSchema"]>(tool: ToolDefinition<Schema>): ToolDefinition<Schema> {
+  return tool;
+}
+
+export function registerTool(tool: ToolDefinition<any>, { replace = false }: { replace?: boolean } = {}): void {
+  if (tools.has(tool.name) && !replace) {
+    throw new Error(`Tool already registered: ${tool.name}`);
+  }
+  tools.set(tool.name, tool);
+}
+
+export function unregisterTool(name: string): boolean {
+  return tools.delete(name);
+}
+
+export function hasTool(name: string): boolean {
+  return tools.has(name);
+}
+
+export function getTool(name: string): ToolDefinition {
+  const tool = tools.get(name);
+  if (!tool) {
+    throw new Error(`Unknown tool: ${name}`);
+  }
+  return tool;
+}
+
+export function listTools(): Array<{ name: string; description: string }> {
+  return Array.from(tools.values()).map(({ name, description }) => ({ name, description }));
+}
+
+/**
+ * Convert registered tools into Responses API `function` tools.
+ */
+export function toResponsesTools(names: string[]) {
+  return names.map((name) => {
+    const tool = getTool(name);
+    // Spread drops the SDK's non-enumerable auto-parse helpers, leaving the plain tool param
+    return {
+      ...zodResponsesFunction({
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.inputSchema,
+      }),
+    };
+  });
+}
@@ -0,0 +1,193 @@
+import { z } from "zod";
+import { openai } from "../clients/openaiSdk";
+import { mapResponsesEvents, StreamEvent } from "../services/responsesStream";
+// Via the tools index so built-in tools are registered before any lookup
+import { getTool, hasTool, toResponsesTools } from "./index";
+import type { ToolContext, ToolRun, ToolStep } from "./types";
+
+/**
+ * Agent run loop with local function calling
+ * - Sends the enabled tools as Responses API `function` tools
+ * - Executes `function_call` output items and feeds `function_call_output` back
+ * - Repeats until the model answers without calling a function, or maxIterations rounds ran; calls made after
+ *   that are answered with an error and one last round (tool_choice "none") makes the model answer in text
+ * - Every executed call is recorded as a ToolStep (returned as `toolRun`, stored in raw.toolRun)
+ */
+export const DEFAULT_MAX_TOOL_ITERATIONS = 5;
+
+// Per-request tool params accepted by agents; unknown function names fail validation (400) instead of the run
+export const ToolParamsSchema = z.object({
+  functions: z.array(z.string().refine(hasTool, (name) => ({ message: `Unknown tool: ${name}` }))).optional(),
+  maxToolIterations: z.number().int().min(1).max(20).optional(),
+});
+
+export type ToolLoopOptions = {
+  functions: string[];
+  maxIterations: number;
+  context: ToolContext;
+};
+
+/**
+ * Combine an agent's configured functions with the ones requested in params.functions.
+ */
+export function toolLoopOptions(
+  agent: string,
+  { conversationId, params }: { conversationId: string; params?: Record<string, unknown> },
+  configured: { functions?: string[]; maxIterations?: number } = {}
+): ToolLoopOptions {
+  const requested = ToolParamsSchema.parse({
+    functions: params?.functions,
+    maxToolIterations: params?.maxToolIterations,
+  });
+  return {
+    functions: Array.from(new Set([...(configured.functions || []), ...(requested.functions || [])])),
+    maxIterations: requested.maxToolIterations || configured.maxIterations || DEFAULT_MAX_TOOL_ITERATIONS,
+    context: { conversationId, agent, params },
+  };
+}
+
+function functionCalls(response: any): Array<{ call_id: string; name: string; arguments: string }> {
+  return (Array.isArray(response?.output) ? response.output : []).filter((item: any) => item?.type === "function_call");
+}
+
+function withTools(request: Record<string, any>, functions: string[]) {
+  if (functions.length === 0) return request;
+  return { ...request, tools: [...(request.tools || []), ...toResponsesTools(functions)] };
+}
+
+// Next request in the loop: same settings, tool outputs as input, chained to the previous response
+function followUp(request: Record<string, any>, response: any, outputs: unknown[]) {
+  const { input: _input, previous_response_id: _previous, ...rest } = request;
+  return {
+    ...rest,
+    input: outputs,
+    // Conversation requests append to the conversation; otherwise chain explicitly
+    ...(rest.conversation ? {} : { previous_response_id: response.id }),
+  };
+}
+
+const TOOL_LIMIT_REACHED = "Tool call limit reached; answer with the information you have.";
+
+// Last request once the limit is hit: the pending calls get an error output and no further calls are allowed
+function finalRound(request: Record<string, any>, response: any, calls: Array<{ call_id: string }>) {
+  const outputs = calls.map((call) => ({
+    type: "function_call_output",
+    call_id: call.call_id,
+    output: JSON.stringify({ error: TOOL_LIMIT_REACHED }),
+  }));
+  return { ...followUp(request, response, outputs), tool_choice: "none" };
+}
+
+async function executeCall(
+  call: { call_id: string; name: string; arguments: string },
+  iteration: number,
+  context: ToolContext
+): Promise<{ step: ToolStep; output: { type: "function_call_output"; call_id: string; output: string } }> {
+  const started = Date.now();
+  const step: ToolStep = { iteration, callId: call.call_id, name: call.name, arguments: call.arguments, ok: false, durationMs: 0 };
+  let result: unknown;
+  try {
+    const tool = getTool(call.name);
+    const args = tool.inputSchema.parse(JSON.parse(call.arguments || "{}"));
+    result = await tool.handler(args, context);
+    step.ok = true;
+    step.output = result;
+  } catch (e) {
+    step.error = e instanceof Error ? e.message : String(e);
+    result = { error: step.error };
+    console.error(`❌ [TOOLS] ${call.name} failed:`, step.error);
+  }
+  step.durationMs = Date.now() - started;
+  return {
+    step,
+    output: { type: "function_call_output", call_id: call.call_id, output: JSON.stringify(result ?? null) },
+  };
+}
+
+/**
+ * Non-streaming run loop. `toolRun` is undefined when no functions are enabled.
+ */
+export async function runWithTools(
+  request: Record<string, any>,
+  { functions, maxIterations, context }: ToolLoopOptions
+): Promise<{ response: any; toolRun?: ToolRun }> {
+  let current = withTools(request, functions);
+  let response: any = await openai.responses.create(current as any);
+  if (functions.length === 0) return { response };
+
+  const toolRun: ToolRun = { iterations: 0, maxIterations, maxIterationsReached: false, responseIds: [response.id], steps: [] };
+  let calls = functionCalls(response);
+  while (calls.length) {
+    if (toolRun.iterations >= maxIterations) {
+      toolRun.maxIterationsReached = true;
+      response = await openai.responses.create(finalRound(current, response, calls) as any);
+      toolRun.responseIds.push(response.id);
+      break;
+    }
+    toolRun.iterations += 1;
+    const executed = await Promise.all(calls.map((call) => executeCall(call, toolRun.iterations, context)));
+    toolRun.steps.push(...executed.map((e) => e.step));
+
+    current = followUp(current, response, executed.map((e) => e.output));
+    response = await openai.responses.create(current as any);
+    toolRun.responseIds.push(response.id);
+    calls = functionCalls(response);
+  }
+
+  return { response, toolRun };
+}
+
+/**
+ * Streaming run loop. Text deltas stream from every round; function calls surface as
+ * `tool_call` events and a single `final` is emitted for the last response.
+ */
+export async function* streamWithTools(
+  request: Record<string, any>,
+  { functions, maxIterations, context }: ToolLoopOptions
+): AsyncGenerator<StreamEvent, void, unknown> {
+  let current = withTools(request, functions);
+  const toolRun: ToolRun = { iterations: 0, maxIterations, maxIterationsReached: false, responseIds: [], steps: [] };
+
+  while (true) {
+    let completed: Extract<StreamEvent, { type: "final" }>["data"] | undefined;
+    const stream = await openai.responses.create({ ...(current as any), stream: true });
+    for await (const event of mapResponsesEvents(stream as any)) {
+      if (event.type === "final") {
+        completed = event.data;
+      } else {
+        yield event;
+      }
+    }
+    // An error event was already forwarded
+    if (!completed) return;
+    toolRun.responseIds.push(completed.raw?.id);
+
+    const calls = functionCalls(completed.raw);
+    if (!calls.length || toolRun.maxIterationsReached) {
+      yield {
+        type: "final",
+        data: functions.length ? { ...completed, raw: { ...completed.raw, toolRun } } : completed,
+      };
+      return;
+    }
+    if (toolRun.iterations >= maxIterations) {
+      toolRun.maxIterationsReached = true;
+      current = finalRound(current, completed.raw, calls);
+      continue;
+    }
+
+    toolRun.iterations += 1;
+    const outputs: unknown[] = [];
+    for (const call of calls) {
+      yield { type: "tool_call", data: { tool: call.name, itemId: call.call_id, status: "in_progress" } };
+      const { step, output } = await executeCall(call, toolRun.iterations, context);
+      toolRun.steps.push(step);
+      outputs.push(output);
+      yield {
+        type: "tool_call",
+        data: { tool: call.name, itemId: call.call_id, status: step.ok ? "completed" : "failed", durationMs: step.durationMs },
+      };
+    }
+    current = followUp(current, completed.raw, outputs);
+  }
+}
@@ -0,0 +1,37 @@
+import { z } from "zod";
+
+// Passed to tool handlers alongside the parsed arguments
+export type ToolContext = {
+  conversationId: string;
+  agent: string;
+  params?: Record<string, unknown>;
+};
+
+export interface ToolDefinition<Schema extends z.ZodTypeAny = z.ZodTypeAny> {
+  readonly name: string;
+  readonly description: string;
+  // Arguments schema; converted to a strict Responses API function tool, so every
+  // field must be required (use .nullable() for optional values)
+  readonly inputSchema: Schema;
+  handler(input: z.infer<Schema>, context: ToolContext): Promise<unknown>;
+}
+
+// One executed function call, recorded in AgentRunResult.raw.toolRun.steps
+export type ToolStep = {
+  iteration: number;
+  callId: string;
+  name: string;
+  arguments: string;
+  ok: boolean;
+  output?: unknown;
+  error?: string;
+  durationMs: number;
+};
+
+export type ToolRun = {
+  iterations: number;
+  maxIterations: number;
+  maxIterationsReached: boolean;
+  responseIds: string[];
+  steps: ToolStep[];
+};
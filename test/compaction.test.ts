@@ -0,0 +1,153 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { TestServer, getJSON, postJSON, startTestServer } from "./helpers";
+
+// Read by services/compaction.ts when it loads: compact past 3 turns or 200 input tokens, keep the last turn
+Object.assign(process.env, { COMPACTION_MAX_TURNS: "3", COMPACTION_MAX_TOKENS: "200", COMPACTION_KEEP_TURNS: "1" });
+
+let server: TestServer;
+// Set to make the summarization request fail
+let failSummaries = false;
+
+const isSummary = (body: any) => typeof body.instructions === "string" && body.instructions.startsWith("You maintain a rolling summary");
+
+before(async () => {
+  server = await startTestServer({
+    responses: (body) =>
+      isSummary(body)
+        ? failSummaries
+          ? { httpError: { status: 400, message: "Summarization refused" } }
+          : { text: "SUMMARY: the user counted turns." }
+        : undefined,
+  });
+});
+
+after(async () => {
+  await server?.close();
+});
+
+beforeEach(() => {
+  server.mock.reset();
+  failSummaries = false;
+});
+
+async function turn(input: string, conversationId?: string) {
+  const { status, body } = await postJSON(`${server.url}/agents/direct`, { input, ...(conversationId ? { conversationId } : {}) });
+  assert.equal(status, 200);
+  return body;
+}
+
+// A conversation with the given inputs as its turns
+async function conversationWith(inputs: string[]): Promise<string> {
+  const first = await turn(inputs[0]);
+  for (const input of inputs.slice(1)) await turn(input, first.conversationId);
+  return first.conversationId;
+}
+
+const answerRequests = () => server.mock.requests.filter((r) => r.path === "/responses" && !isSummary(r.body));
+
+describe("automatic compaction", () => {
+  it("compacts once the turns on the backing exceed the limit", async () => {
+    const id = await conversationWith(["one", "two", "three"]);
+    assert.equal((await turn("four", id)).raw.compaction, undefined);
+
+    const fifth = await turn("five", id);
+    const { compaction } = fifth.raw;
+    assert.equal(fifth.conversationId, id);
+    assert.deepEqual(
+      [compaction.reason, compaction.beforeTurn, compaction.summarizedThrough, compaction.summarizedTurns, compaction.keptTurns],
+      ["turns", 4, 3, 3, 1]
+    );
+    assert.equal(compaction.summary, "SUMMARY: the user counted turns.");
+
+    // The summary covered the first three turns
+    const summary = server.mock.requests.find((r) => isSummary(r.body))!;
+    assert.match(summary.body.input, /User: one[\s\S]*User: three/);
+    assert.doesNotMatch(summary.body.input, /User: four/);
+  });
+
+  it("compacts when the last turn's input tokens reach the limit", async () => {
+    const id = await conversationWith(["short", "long ".repeat(200)]);
+    const { raw } = await turn("next", id);
+    assert.equal(raw.compaction.reason, "tokens");
+    assert.ok(raw.compaction.inputTokens >= 200);
+  });
+
+  it("moves the session to a fresh backing seeded with the summary and the kept turns", async () => {
+    const id = await conversationWith(["one", "two", "three", "four"]);
+    const before = server.mock.state.conversations.get(id);
+    assert.ok(before, "the first backing is the conversation the id was created with");
+
+    const { raw } = await turn("five", id);
+    const backing = raw.compaction.backing.conversationId;
+    assert.notEqual(backing, id);
+    assert.deepEqual(raw.compaction.previousBacking, { mode: "conversation", conversationId: id });
+    assert.equal(answerRequests().pop()!.body.conversation, backing);
+
+    const items = server.mock.state.conversations.get(backing)!.items;
+    assert.equal(items[0].role, "developer");
+    assert.match(items[0].content[0].text, /SUMMARY: the user counted turns\./);
+    assert.deepEqual(
+      items.slice(1, 3).map((i: any) => [i.role, i.content[0].text]),
+      [
+        ["user", "four"],
+        ["assistant", "Mock answer: four"],
+      ]
+    );
+  });
+
+  it("records the compaction in the conversation history", async () => {
+    const id = await conversationWith(["one", "two", "three", "four"]);
+    const { raw } = await turn("five", id);
+
+    const { body } = await getJSON(`${server.url}/conversations/${id}`);
+    assert.equal(body.compactions.length, 1);
+    assert.deepEqual(body.compactions[0], raw.compaction);
+    assert.equal(body.backing.conversationId, raw.compaction.backing.conversationId);
+
+    // The next turn stays on the new backing without compacting again
+    const next = await turn("six", id);
+    assert.equal(next.raw.compaction, undefined);
+    assert.equal(answerRequests().pop()!.body.conversation, raw.compaction.backing.conversationId);
+  });
+
+  it("logs a failed compaction and answers on the current backing", async () => {
+    const id = await conversationWith(["one", "two", "three", "four"]);
+    failSummaries = true;
+    const errors: unknown[][] = [];
+    const consoleError = console.error;
+    console.error = (...args: unknown[]) => errors.push(args);
+    try {
+      const { raw } = await turn("five", id);
+      assert.equal(raw.compaction, undefined);
+    } finally {
+      console.error = consoleError;
+    }
+    assert.ok(errors.some(([message]) => /compaction failed/.test(String(message))));
+    assert.equal(answerRequests().pop()!.body.conversation, id);
+    assert.equal((await getJSON(`${server.url}/conversations/${id}`)).body.compactions, undefined);
+  });
+});
+
+describe("POST /conversations/:id/compact", () => {
+  it("compacts below the thresholds", async () => {
+    const id = await conversationWith(["one", "two"]);
+    const { status, body } = await postJSON(`${server.url}/conversations/${id}/compact`, {});
+    assert.equal(status, 200);
+    assert.equal(body.compacted, true);
+    assert.deepEqual([body.compaction.reason, body.compaction.summarizedTurns, body.compaction.keptTurns], ["manual", 1, 1]);
+  });
+
+  it("reports nothing to compact within the kept turns", async () => {
+    const id = await conversationWith(["one"]);
+    const { body } = await postJSON(`${server.url}/conversations/${id}/compact`, {});
+    assert.deepEqual(body, { conversationId: id, compacted: false });
+  });
+
+  it("answers 502 when a manual compaction fails, and 404 for unknown conversations", async () => {
+    const id = await conversationWith(["one", "two"]);
+    failSummaries = true;
+    assert.equal((await postJSON(`${server.url}/conversations/${id}/compact`, {})).status, 502);
+    assert.equal((await postJSON(`${server.url}/conversations/conv_missing/compact`, {})).status, 404);
+  });
+});
@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+
+// The agents import the OpenAI client, which needs a key (nothing is called)
+process.env.OPENAI_API_KEY = "test";
+
+let loader: typeof import("../src/agents/configLoader");
+let registry: typeof import("../src/agents");
+const sandbox = fs.mkdtempSync(path.join(os.tmpdir(), "agent-config-test-"));
+
+before(async () => {
+  console.log = () => undefined;
+  console.error = () => undefined;
+  loader = await import("../src/agents/configLoader");
+  registry = await import("../src/agents");
+});
+
+after(() => {
+  loader.loadAgentConfigs([]);
+  fs.rmSync(sandbox, { recursive: true, force: true });
+});
+
+// A fresh directory holding the given files
+function configDir(name: string, files: Record<string, string> = {}): string {
+  const dir = path.join(sandbox, name);
+  fs.mkdirSync(dir, { recursive: true });
+  for (const [file, content] of Object.entries(files)) fs.writeFileSync(path.join(dir, file), content);
+  return dir;
+}
+
+const agentJson = (name: string, description = `${name} agent`) => JSON.stringify({ name, description });
+
+async function eventually(check: () => boolean, what: string) {
+  const deadline = Date.now() + 5000;
+  while (!check()) {
+    if (Date.now() > deadline) assert.fail(`timed out waiting for ${what}`);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+describe("loadAgentConfigs", () => {
+  it("loads JSON and YAML files with one agent, a list or { agents }", () => {
+    const dir = configDir("formats", {
+      "a.json": agentJson("json-agent"),
+      "b.yaml": "- name: yaml-agent\n  description: From YAML\n  routable: false\n",
+      "c.yml": "agents:\n  - name: yml-agent\n    description: From YML\n    instructions: Be brief.\n",
+      "notes.txt": "ignored",
+    });
+    assert.deepEqual(loader.loadAgentConfigs([dir]), ["json-agent", "yaml-agent", "yml-agent"]);
+    assert.equal(registry.getAgent("yaml-agent").description, "From YAML");
+    const routable = registry.listRoutableAgents().map((a) => a.name);
+    assert.ok(routable.includes("json-agent"));
+    assert.ok(!routable.includes("yaml-agent"));
+  });
+
+  it("unregisters agents whose config disappeared", () => {
+    const dir = configDir("removal", { "a.json": agentJson("going-away") });
+    loader.loadAgentConfigs([dir]);
+    fs.rmSync(path.join(dir, "a.json"));
+    assert.deepEqual(loader.loadAgentConfigs([dir]), []);
+    assert.equal(registry.hasAgent("going-away"), false);
+  });
+
+  it("rejects invalid configs with the file and the issue, keeping the loaded agents", () => {
+    const dir = configDir("invalid", { "good.json": agentJson("keeper") });
+    loader.loadAgentConfigs([dir]);
+
+    fs.writeFileSync(path.join(dir, "bad.json"), JSON.stringify({ name: "bad agent", description: "" }));
+    assert.throws(() => loader.loadAgentConfigs([dir]), /bad\.json \[agent 0\]: name: name must be alphanumeric/);
+    fs.writeFileSync(path.join(dir, "bad.json"), "{ not json");
+    assert.throws(() => loader.loadAgentConfigs([dir]), /bad\.json:/);
+    assert.equal(registry.hasAgent("keeper"), true);
+  });
+
+  it("rejects names taken by built-in agents or defined twice", () => {
+    assert.throws(() => loader.loadAgentConfigs([configDir("builtin", { "a.json": agentJson("direct") })]), /registered in code/);
+    const twice = configDir("twice", { "a.json": agentJson("twin"), "b.json": agentJson("twin") });
+    assert.throws(() => loader.loadAgentConfigs([twice]), /defined in both/);
+  });
+});
+
+describe("watchAgentConfigs", () => {
+  it("reloads when a file changes", async () => {
+    const dir = configDir("watched", { "a.json": agentJson("watched-agent", "Before") });
+    loader.loadAgentConfigs([dir]);
+    const watcher = loader.watchAgentConfigs([dir]);
+    try {
+      fs.writeFileSync(path.join(dir, "a.json"), agentJson("watched-agent", "After"));
+      await eventually(() => registry.getAgent("watched-agent").description === "After", "the changed description");
+    } finally {
+      watcher.close();
+    }
+  });
+
+  it("keeps the agents when an edit is invalid", async () => {
+    const dir = configDir("watched-invalid", { "a.json": agentJson("steady") });
+    loader.loadAgentConfigs([dir]);
+    const watcher = loader.watchAgentConfigs([dir]);
+    try {
+      fs.writeFileSync(path.join(dir, "a.json"), "{ broken");
+      fs.writeFileSync(path.join(dir, "b.json"), agentJson("steady-two"));
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      assert.equal(registry.hasAgent("steady"), true);
+      assert.equal(registry.hasAgent("steady-two"), false);
+    } finally {
+      watcher.close();
+    }
+  });
+
+  it("starts watching a config directory created after startup", async () => {
+    const dir = path.join(sandbox, "later", "config", "agents");
+    assert.deepEqual(loader.loadAgentConfigs([dir]), []);
+    const watcher = loader.watchAgentConfigs([dir]);
+    try {
+      configDir(path.join("later", "config", "agents"), { "a.json": agentJson("late-agent") });
+      await eventually(() => registry.hasAgent("late-agent"), "the agent from the new directory");
+
+      // And the new directory itself is watched from then on
+      fs.writeFileSync(path.join(dir, "b.json"), agentJson("later-still"));
+      await eventually(() => registry.hasAgent("later-still"), "the second agent");
+    } finally {
+      watcher.close();
+    }
+  });
+});
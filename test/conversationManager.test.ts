@@ -0,0 +1,122 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
+import { TestServer, getJSON, postJSON, startTestServer } from "./helpers";
+
+// Read by services/conversationManager.ts when it loads: retry the Conversations API 300 ms after a failure
+const RETRY_AFTER_MS = 300;
+process.env.CONVERSATION_RETRY_AFTER_MS = String(RETRY_AFTER_MS);
+
+let server: TestServer;
+// Set to make POST /conversations fail
+let failCreates = false;
+let createsFailed = false;
+
+before(async () => {
+  server = await startTestServer({
+    strictConversations: true,
+    conversationCreateError: () =>
+      failCreates ? ((createsFailed = true), { status: 403, message: "Conversations are not enabled" }) : undefined,
+  });
+});
+
+after(async () => {
+  await server?.close();
+});
+
+beforeEach(() => {
+  server.mock.reset();
+  failCreates = false;
+});
+
+// The manager skips the Conversations API for a while after a failed create; let that pass
+afterEach(async () => {
+  if (createsFailed) await new Promise((resolve) => setTimeout(resolve, RETRY_AFTER_MS + 50));
+  createsFailed = false;
+});
+
+async function turn(input: string, conversationId?: string) {
+  const { status, body } = await postJSON(`${server.url}/agents/direct`, { input, ...(conversationId ? { conversationId } : {}) });
+  assert.equal(status, 200);
+  return body;
+}
+
+const recordFile = (id: string) => path.join(server.dataDir, "conversations", `${id}.json`);
+const responseRequests = () => server.mock.requests.filter((r) => r.path === "/responses");
+const lastResponseRequest = () => responseRequests().pop()!.body;
+const createRequests = () => server.mock.requests.filter((r) => r.method === "POST" && r.path === "/conversations");
+
+describe("conversation sessions", () => {
+  it("saves a new session's record with its first turn", async () => {
+    const { body: session } = await getJSON(`${server.url}/agents/conversation/new`);
+    assert.equal(session.mode, "conversation");
+    assert.ok(server.mock.state.conversations.has(session.conversationId));
+    assert.equal(fs.existsSync(recordFile(session.conversationId)), false);
+
+    await turn("one", session.conversationId);
+    assert.equal(lastResponseRequest().conversation, session.conversationId);
+    const record = JSON.parse(fs.readFileSync(recordFile(session.conversationId), "utf8"));
+    assert.equal(record.turns.length, 1);
+    assert.deepEqual([record.backing.mode, record.backing.conversationId], ["conversation", session.conversationId]);
+
+    // Validated when it was created: the next turn does not look it up again
+    await turn("two", session.conversationId);
+    assert.equal(server.mock.requests.filter((r) => r.method === "GET" && r.path.startsWith("/conversations/")).length, 0);
+  });
+
+  it("falls back to chaining responses when creating a conversation fails", async () => {
+    failCreates = true;
+    const first = await turn("one");
+    assert.match(first.conversationId, /^conv_/);
+    assert.equal(server.mock.state.conversations.has(first.conversationId), false);
+    assert.equal(lastResponseRequest().conversation, undefined);
+
+    const { body: stored } = await getJSON(`${server.url}/conversations/${first.conversationId}`);
+    assert.equal(stored.backing.mode, "chained");
+
+    const second = await turn("two", first.conversationId);
+    assert.equal(second.conversationId, first.conversationId);
+    assert.equal(lastResponseRequest().previous_response_id, stored.turns[0].responseId);
+  });
+
+  it("skips the Conversations API until the retry delay has passed", async () => {
+    failCreates = true;
+    const chained = await turn("one");
+    failCreates = false;
+
+    await turn("within the delay");
+    assert.equal(lastResponseRequest().conversation, undefined);
+    assert.equal(createRequests().length, 1);
+
+    await new Promise((resolve) => setTimeout(resolve, RETRY_AFTER_MS + 50));
+    const recovered = await turn("after the delay");
+    assert.equal(lastResponseRequest().conversation, recovered.conversationId);
+    assert.equal(createRequests().length, 2);
+
+    // Sessions that started chained stay chained
+    await turn("two", chained.conversationId);
+    assert.equal(lastResponseRequest().conversation, undefined);
+    assert.ok(lastResponseRequest().previous_response_id);
+  });
+
+  it("replaces a backing conversation that answered 404, keeping the session id", async () => {
+    const { conversationId } = await turn("one");
+    server.mock.state.conversations.delete(conversationId);
+
+    // Still validated from its creation, so the turn reaches OpenAI and fails
+    const failed = await postJSON(`${server.url}/agents/direct`, { input: "two", conversationId });
+    assert.equal(failed.status, 500);
+    assert.equal(lastResponseRequest().conversation, conversationId);
+
+    // The 404 dropped the validation: the next turn checks, finds it gone and moves to a new one
+    const next = await turn("three", conversationId);
+    assert.equal(next.conversationId, conversationId);
+    const backing = lastResponseRequest().conversation;
+    assert.ok(backing && backing !== conversationId);
+    assert.ok(server.mock.requests.some((r) => r.method === "GET" && r.path === `/conversations/${conversationId}`));
+
+    const { body: stored } = await getJSON(`${server.url}/conversations/${conversationId}`);
+    assert.deepEqual([stored.backing.mode, stored.backing.conversationId], ["conversation", backing]);
+  });
+});
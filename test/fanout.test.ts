@@ -0,0 +1,163 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { TestServer, postForm, postJSON, postSSE, startTestServer, textFile } from "./helpers";
+
+let server: TestServer;
+let storeId: string;
+
+const SYNTHESIS = "You combine answers";
+const isSynthesis = (body: any) => typeof body.instructions === "string" && body.instructions.startsWith(SYNTHESIS);
+
+before(async () => {
+  server = await startTestServer({
+    // A branch searching "vs_broken" fails; everything else gets the default answers
+    responses: (body) =>
+      (body.tools || []).some((t: any) => t?.vector_store_ids?.includes("vs_broken"))
+        ? { httpError: { status: 400, message: "Vector store vs_broken is unavailable" } }
+        : isSynthesis(body)
+          ? { text: "Combined answer [direct] [rag]" }
+          : undefined,
+  });
+});
+
+after(async () => {
+  await server?.close();
+});
+
+// A fresh store with one document; its requests are not part of the assertions
+beforeEach(async () => {
+  server.mock.reset();
+  const form = new FormData();
+  form.append("name", "fanout");
+  form.append("files", ...textFile("policy.txt", "Refunds take 14 days."));
+  const { body } = await postForm(`${server.url}/vector-stores?wait=true`, form);
+  storeId = body.vectorStore.id;
+  server.mock.requests.length = 0;
+});
+
+const responseRequests = () => server.mock.requests.filter((r) => r.path === "/responses");
+
+describe("supervisor fan-out", () => {
+  it("dispatches to every routable agent that accepts the params by default", async () => {
+    const { status, body } = await postJSON(`${server.url}/agents/supervisor`, {
+      input: "How long do refunds take?",
+      vectorStoreIds: [storeId],
+      params: { mode: "fanout" },
+    });
+    assert.equal(status, 200);
+    assert.equal(body.text, "Combined answer [direct] [rag]");
+    const { branches } = body.raw.supervisorMetadata;
+    assert.deepEqual(
+      branches.map((b: { label: string; ok: boolean }) => [b.label, b.ok]),
+      [
+        ["direct", true],
+        ["rag", true],
+      ]
+    );
+
+    // Branches run outside the conversation; only the synthesis joins it
+    const requests = responseRequests();
+    const synthesis = requests.find((r) => isSynthesis(r.body))!;
+    assert.equal(synthesis.body.conversation, body.conversationId);
+    assert.match(synthesis.body.instructions, /### \[rag\] \(agent: rag\)/);
+    assert.ok(requests.filter((r) => !isSynthesis(r.body)).every((r) => r.body.conversation === undefined));
+  });
+
+  it("leaves out agents whose params schema rejects the request", async () => {
+    const { body } = await postJSON(`${server.url}/agents/supervisor`, { input: "hi", params: { mode: "fanout" } });
+    assert.deepEqual(
+      body.raw.supervisorMetadata.branches.map((b: { agent: string }) => b.agent),
+      ["direct"]
+    );
+  });
+
+  it("runs explicit branches with their own labels, stores and params", async () => {
+    const { status, body } = await postJSON(`${server.url}/agents/supervisor`, {
+      input: "Compare",
+      params: {
+        mode: "fanout",
+        branches: [
+          { agent: "rag", label: "handbook", vectorStoreIds: [storeId], params: { maxNumResults: 1, mode: "fanout", branches: [] } },
+          { agent: "direct" },
+          { agent: "direct" },
+        ],
+      },
+    });
+    assert.equal(status, 200);
+    assert.deepEqual(
+      body.raw.supervisorMetadata.branches.map((b: { label: string }) => b.label),
+      ["handbook", "direct", "direct#2"]
+    );
+    const rag = responseRequests().find((r) => r.body.tools?.some((t: any) => t.type === "file_search"))!;
+    assert.deepEqual(rag.body.tools[0].vector_store_ids, [storeId]);
+    assert.equal(rag.body.tools[0].max_num_results, 1);
+    // Nested fan-out params are dropped: four requests (three branches and the synthesis), no more
+    assert.equal(responseRequests().length, 4);
+  });
+
+  it("reports a failing branch and synthesizes the others", async () => {
+    const { status, body } = await postJSON(`${server.url}/agents/supervisor`, {
+      input: "Compare",
+      params: { mode: "fanout", branches: [{ agent: "rag", vectorStoreIds: ["vs_broken"] }, { agent: "direct" }] },
+    });
+    assert.equal(status, 200);
+    const [broken, direct] = body.raw.supervisorMetadata.branches;
+    assert.equal(broken.ok, false);
+    assert.match(broken.error, /vs_broken is unavailable/);
+    assert.equal(direct.ok, true);
+    const synthesis = responseRequests().find((r) => isSynthesis(r.body))!;
+    assert.doesNotMatch(synthesis.body.instructions, /### \[rag\]/);
+  });
+
+  it("returns the branch citations numbered together and tagged with the branch", async () => {
+    const { body } = await postJSON(`${server.url}/agents/supervisor`, {
+      input: "Refunds?",
+      params: {
+        mode: "fanout",
+        branches: [
+          { agent: "rag", label: "first", vectorStoreIds: [storeId] },
+          { agent: "rag", label: "second", vectorStoreIds: [storeId] },
+        ],
+      },
+    });
+    assert.deepEqual(
+      body.citations.map((c: { filename: string; number: number; branch: string }) => [c.filename, c.number, c.branch]),
+      [
+        ["policy.txt", 1, "first"],
+        ["policy.txt", 1, "second"],
+      ]
+    );
+  });
+
+  it("streams the plan and the branch results before the synthesized answer", async () => {
+    const events = await postSSE(`${server.url}/agents/supervisor/stream`, {
+      input: "hi",
+      params: { mode: "fanout", branches: [{ agent: "direct" }] },
+    });
+    const names = events.map((e) => e.event);
+    assert.deepEqual(names.slice(0, 3), ["conversation", "fanout", "branch"]);
+    assert.equal(events.find((e) => e.event === "final")?.data.text, "Combined answer [direct] [rag]");
+  });
+
+  it("answers 400 for branches naming the supervisor or an unknown agent", async () => {
+    for (const agent of ["supervisor", "nope"]) {
+      const { status, body } = await postJSON(`${server.url}/agents/supervisor`, {
+        input: "hi",
+        params: { mode: "fanout", branches: [{ agent }] },
+      });
+      assert.equal(status, 400, agent);
+      assert.deepEqual(body.details[0].path, ["branches", 0, "agent"]);
+      assert.match(body.details[0].message, /non-routable agent/);
+    }
+    assert.equal(responseRequests().length, 0);
+  });
+
+  it("answers 400 for malformed branches, also when streaming", async () => {
+    const params = { mode: "fanout", branches: [{ label: "no agent" }] };
+    const json = await postJSON(`${server.url}/agents/supervisor`, { input: "hi", params });
+    assert.equal(json.status, 400);
+    const stream = await postJSON(`${server.url}/agents/supervisor/stream`, { input: "hi", params });
+    assert.equal(stream.status, 400);
+    assert.deepEqual(stream.body.details[0].path, ["branches", 0, "agent"]);
+  });
+});
@@ -0,0 +1,98 @@
+import fs from "node:fs";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import type { Server } from "node:http";
+import { MockOpenAI, MockOpenAIOptions, startMockOpenAI } from "../src/mock/openaiMock";
+import { SSEFrame, readSSEFrames } from "../src/services/responsesStream";
+
+export type TestServer = {
+  url: string;
+  mock: MockOpenAI;
+  dataDir: string;
+  close(): Promise<void>;
+};
+
+/**
+ * Start the mock OpenAI and the app against it, with local state in a temp dir.
+ * The app modules read their configuration when they load, so this must run before anything
+ * under src/ other than the mock is imported (each test file runs in its own process).
+ */
+export async function startTestServer(options: MockOpenAIOptions = {}): Promise<TestServer> {
+  const mock = await startMockOpenAI(options);
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "vector-backend-test-"));
+  Object.assign(process.env, {
+    OPENAI_API_BASE_URL: mock.baseURL,
+    OPENAI_API_KEY: "mock",
+    CONVERSATIONS_DIR: path.join(dataDir, "conversations"),
+    UPLOAD_INDEX_FILE: path.join(dataDir, "upload-index.json"),
+    UPLOAD_DIR: path.join(dataDir, "uploads"),
+  });
+  if (!process.env.TEST_VERBOSE) quietConsole();
+
+  const { createApp } = await import("../src/app");
+  const server: Server = await new Promise((resolve) => {
+    const s = createApp().listen(0, "127.0.0.1", () => resolve(s));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    mock,
+    dataDir,
+    close: async () => {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      await mock.close();
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    },
+  };
+}
+
+// The routes log every step; TEST_VERBOSE=1 keeps the output
+function quietConsole() {
+  for (const level of ["log", "info", "warn", "error"] as const) console[level] = () => undefined;
+}
+
+export async function postJSON(url: string, body: unknown): Promise<{ status: number; body: any }> {
+  const res = await fetch(url, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+  return { status: res.status, body: await res.json() };
+}
+
+export async function getJSON(url: string): Promise<{ status: number; body: any }> {
+  const res = await fetch(url);
+  return { status: res.status, body: await res.json() };
+}
+
+export async function patchJSON(url: string, body: unknown): Promise<{ status: number; body: any }> {
+  const res = await fetch(url, { method: "PATCH", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+  return { status: res.status, body: await res.json() };
+}
+
+export async function deleteJSON(url: string): Promise<{ status: number; body: any }> {
+  const res = await fetch(url, { method: "DELETE" });
+  return { status: res.status, body: await res.json() };
+}
+
+export async function postForm(url: string, form: FormData): Promise<{ status: number; body: any }> {
+  const res = await fetch(url, { method: "POST", body: form });
+  return { status: res.status, body: await res.json() };
+}
+
+export function textFile(name: string, content: string, type = "text/plain"): [Blob, string] {
+  return [new Blob([content], { type }), name];
+}
+
+/**
+ * POST a JSON body to an SSE route and collect the events (data parsed as JSON).
+ */
+export async function postSSE(url: string, body: unknown): Promise<Array<{ event?: string; data: any }>> {
+  const res = await fetch(url, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+  if (!res.headers.get("content-type")?.startsWith("text/event-stream")) {
+    throw new Error(`Expected an event stream, got ${res.status}: ${await res.text()}`);
+  }
+  const events: Array<{ event?: string; data: any }> = [];
+  for await (const frame of readSSEFrames(res.body!) as AsyncIterable<SSEFrame>) {
+    events.push({ event: frame.event, data: JSON.parse(frame.data) });
+  }
+  return events;
+}
@@ -0,0 +1,185 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  htmlToTextProcessor,
+  markdownToTextProcessor,
+  redactPiiProcessor,
+  splitSectionsProcessor,
+  stripBoilerplateProcessor,
+  textStatsProcessor,
+} from "../src/preprocessing/builtin";
+import { PreprocessStepsSchema, TextDocument, runPipeline } from "../src/preprocessing";
+
+const doc = (filename: string, text: string, mimetype?: string): TextDocument => ({ filename, text, mimetype, attributes: {} });
+
+// Run one processor with its options validated (and defaulted) like an upload request does
+function run(processor: { optionsSchema: any; process(d: TextDocument, o: any): TextDocument | TextDocument[] }, d: TextDocument, options = {}) {
+  return processor.process(d, processor.optionsSchema.parse(options));
+}
+
+describe("html_to_text", () => {
+  const html = [
+    "<html><head><title>Refund &amp; returns</title><style>p{}</style></head><body>",
+    "<nav>Home | Shop</nav>",
+    "<h1>Refunds</h1><p>Refunds take <b>14</b>&nbsp;days.</p>",
+    '<ul><li>Keep the <a href="https://example.com/r">receipt</a></li><li>Use the form</li></ul>',
+    "<script>track()</script><footer>© Shop</footer></body></html>",
+  ].join("");
+
+  it("keeps the text, drops scripts, styles and layout, and sets the title", () => {
+    const out = run(htmlToTextProcessor, doc("refunds.html", html)) as TextDocument;
+    assert.equal(out.filename, "refunds.txt");
+    assert.equal(out.mimetype, "text/plain");
+    assert.equal(out.text, "Refunds\n\nRefunds take 14 days.\n\n- Keep the receipt\n- Use the form");
+    assert.equal(out.attributes.title, "Refund & returns");
+  });
+
+  it("keeps layout and links when asked", () => {
+    const out = run(htmlToTextProcessor, doc("refunds.html", html), { stripLayout: false, keepLinks: true }) as TextDocument;
+    assert.match(out.text, /Home \| Shop/);
+    assert.match(out.text, /receipt \(https:\/\/example\.com\/r\)/);
+  });
+
+  it("only accepts HTML", () => {
+    assert.equal(htmlToTextProcessor.accepts!(doc("a.htm", "")), true);
+    assert.equal(htmlToTextProcessor.accepts!(doc("page", "", "text/html; charset=utf-8")), true);
+    assert.equal(htmlToTextProcessor.accepts!(doc("a.txt", "")), false);
+  });
+});
+
+describe("markdown_to_text", () => {
+  it("removes markup but keeps code blocks verbatim", () => {
+    const md = [
+      "---",
+      "draft: true",
+      "---",
+      "# Setup guide",
+      "",
+      "Read the **full** [docs](https://example.com) and *notes*.",
+      "",
+      "```",
+      "npm install **not bold**",
+      "```",
+      "> quoted",
+    ].join("\n");
+    const out = run(markdownToTextProcessor, doc("guide.md", md)) as TextDocument;
+    assert.equal(out.filename, "guide.txt");
+    assert.equal(out.attributes.title, "Setup guide");
+    assert.equal(out.text, "Setup guide\n\nRead the full docs and notes.\n\nnpm install **not bold**\n\nquoted");
+  });
+});
+
+describe("strip_boilerplate", () => {
+  const page = (n: number) => `ACME Corp — Confidential\nBody text of page ${n}.\nPage ${n} of 3`;
+  const text = [page(1), page(2), page(3)].join("\n\n");
+
+  it("removes repeated short lines and page numbers", () => {
+    const out = run(stripBoilerplateProcessor, doc("report.txt", text)) as TextDocument;
+    assert.equal(out.text, "Body text of page 1.\n\nBody text of page 2.\n\nBody text of page 3.");
+  });
+
+  it("removes lines matching custom patterns, case-insensitively", () => {
+    const out = run(stripBoilerplateProcessor, doc("a.txt", "Keep me\nDRAFT - do not share\nKeep me too"), {
+      patterns: ["^draft\\b"],
+    }) as TextDocument;
+    assert.equal(out.text, "Keep me\nKeep me too");
+  });
+
+  it("does not process source code", () => {
+    assert.equal(stripBoilerplateProcessor.accepts!(doc("a.ts", "")), false);
+  });
+});
+
+describe("redact_pii", () => {
+  it("redacts e-mail addresses and phone numbers by default, and counts them", () => {
+    const out = run(redactPiiProcessor, doc("a.txt", "Mail jane.doe@example.com or call +1 (555) 123-4567 before 2024-05-01.")) as TextDocument;
+    assert.equal(out.text, "Mail [REDACTED] or call [REDACTED] before 2024-05-01.");
+    assert.equal(out.attributes.redactions, 2);
+  });
+
+  it("redacts only Luhn-valid card numbers and valid IP addresses", () => {
+    const out = run(redactPiiProcessor, doc("a.txt", "Card 4111 1111 1111 1111, not 4111 1111 1111 1112; host 10.0.0.1, not 999.1.1.1"), {
+      kinds: ["credit_card", "ip"],
+      replacement: "█",
+    }) as TextDocument;
+    assert.equal(out.text, "Card █, not 4111 1111 1111 1112; host █, not 999.1.1.1");
+    assert.equal(out.attributes.redactions, 2);
+  });
+
+  it("applies custom patterns", () => {
+    const out = run(redactPiiProcessor, doc("a.txt", "Employee EMP-12345 and EMP-99"), { kinds: [], patterns: ["EMP-\\d{5}"] }) as TextDocument;
+    assert.equal(out.text, "Employee [REDACTED] and EMP-99");
+  });
+});
+
+describe("split_sections", () => {
+  it("splits long documents at headings and numbers the parts", () => {
+    const section = (title: string) => `# ${title}\n\n${"word ".repeat(150).trim()}\n`;
+    const text = [section("One"), section("Two"), section("Three")].join("\n");
+    const parts = run(splitSectionsProcessor, doc("manual.md", text), { maxChars: 1000 }) as TextDocument[];
+    assert.deepEqual(
+      parts.map((p) => [p.filename, p.attributes.section, p.attributes.sections, p.attributes.section_title]),
+      [
+        ["manual.part-01.md", 1, 3, "One"],
+        ["manual.part-02.md", 2, 3, "Two"],
+        ["manual.part-03.md", 3, 3, "Three"],
+      ]
+    );
+    assert.ok(parts.every((p) => p.text.length <= 1000));
+  });
+
+  it("leaves short documents alone", () => {
+    const short = doc("a.md", "short");
+    assert.equal(run(splitSectionsProcessor, short), short);
+  });
+});
+
+describe("text_stats", () => {
+  it("counts words and characters", () => {
+    const out = run(textStatsProcessor, doc("a.txt", "three little words")) as TextDocument;
+    assert.deepEqual(out.attributes, { word_count: 3, char_count: 18 });
+  });
+});
+
+describe("preprocess steps", () => {
+  const issues = (value: unknown) => {
+    const result = PreprocessStepsSchema.safeParse(value);
+    assert.equal(result.success, false);
+    return result.error!.issues.map((i) => `${i.path.join(".")}: ${i.message}`);
+  };
+
+  it("parses names and options, applying defaults", () => {
+    const steps = PreprocessStepsSchema.parse('["html_to_text", {"name": "strip_boilerplate", "options": {"patterns": ["^draft"]}}]');
+    assert.equal(steps[0].name, "html_to_text");
+    assert.deepEqual(steps[1].options, { minRepeats: 3, maxLineLength: 120, pageNumbers: true, patterns: ["^draft"] });
+  });
+
+  it("rejects unknown processors and invalid options", () => {
+    assert.match(issues(["nope"])[0], /^0\.name: Unknown processor/);
+    assert.match(issues([{ name: "split_sections", options: { maxChars: 10 } }])[0], /^0\.options\.maxChars/);
+  });
+
+  it("rejects patterns that do not compile", () => {
+    assert.match(issues([{ name: "strip_boilerplate", options: { patterns: ["(("] } }])[0], /^0\.options\.patterns\.0: Invalid regular expression/);
+    assert.match(issues([{ name: "redact_pii", options: { patterns: ["[a-"] } }])[0], /^0\.options\.patterns\.0: Invalid regular expression/);
+  });
+
+  it("rejects patterns prone to catastrophic backtracking, and overly long ones", () => {
+    for (const pattern of ["(a+)+$", "(x*)*y", "(\\w+\\s?){10}$"]) {
+      assert.match(issues([{ name: "redact_pii", options: { patterns: [pattern] } }])[0], /Nested quantifiers/, pattern);
+    }
+    assert.match(issues([{ name: "redact_pii", options: { patterns: ["a".repeat(201)] } }])[0], /^0\.options\.patterns\.0/);
+  });
+
+  it("accepts ordinary patterns, including escaped quantifier characters in groups", () => {
+    for (const pattern of ["(\\+)+", "(ab)+", "EMP-\\d{5}", "(\\d+)-\\d+", "^(Page|Seite) \\d+$"]) {
+      assert.ok(PreprocessStepsSchema.safeParse([{ name: "redact_pii", options: { patterns: [pattern] } }]).success, pattern);
+    }
+  });
+
+  it("runs the steps in order", () => {
+    const steps = PreprocessStepsSchema.parse(["html_to_text", "text_stats"]);
+    const [out] = runPipeline(doc("a.html", "<p>two words</p>"), steps);
+    assert.deepEqual([out.filename, out.text, out.attributes.word_count], ["a.txt", "two words", 2]);
+  });
+});
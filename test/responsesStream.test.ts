@@ -0,0 +1,244 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { describe, it } from "node:test";
+import {
+  SSEFrame,
+  StreamEvent,
+  decodeResponsesStream,
+  parseSSEFrame,
+  readSSEFrames,
+} from "../src/services/responsesStream";
+
+// Recorded /v1/responses streams (test/fixtures/responses/*.sse)
+function fixture(name: string): string {
+  return readFileSync(path.join(__dirname, "fixtures", "responses", `${name}.sse`), "utf8");
+}
+
+function streamOf(chunks: Array<string | Uint8Array>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(typeof chunk === "string" ? encoder.encode(chunk) : chunk);
+      controller.close();
+    },
+  });
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const out: T[] = [];
+  for await (const item of iterable) out.push(item);
+  return out;
+}
+
+function frames(chunks: Array<string | Uint8Array>): Promise<SSEFrame[]> {
+  return collect(readSSEFrames(streamOf(chunks)));
+}
+
+function replay(transcript: string, chunkSize = transcript.length): Promise<StreamEvent[]> {
+  const chunks: string[] = [];
+  for (let i = 0; i < transcript.length; i += chunkSize) chunks.push(transcript.slice(i, i + chunkSize));
+  return collect(decodeResponsesStream(readSSEFrames(streamOf(chunks))));
+}
+
+describe("parseSSEFrame", () => {
+  it("reads the event name and data", () => {
+    assert.deepEqual(parseSSEFrame('event: response.created\ndata: {"a":1}'), {
+      event: "response.created",
+      data: '{"a":1}',
+    });
+  });
+
+  it("joins multi-line data with newlines", () => {
+    assert.deepEqual(parseSSEFrame("data: first\ndata: second\ndata:third"), { event: undefined, data: "first\nsecond\nthird" });
+  });
+
+  it("accepts CRLF line endings", () => {
+    assert.deepEqual(parseSSEFrame("event: x\r\ndata: y\r\n"), { event: "x", data: "y" });
+  });
+
+  it("strips only one leading space from values", () => {
+    assert.deepEqual(parseSSEFrame("data:   indented"), { event: undefined, data: "  indented" });
+  });
+
+  it("ignores comments and unknown fields", () => {
+    assert.deepEqual(parseSSEFrame(": keep-alive\nid: 7\nretry: 1000\ndata: x"), { event: undefined, data: "x" });
+  });
+
+  it("returns null for frames without data", () => {
+    assert.equal(parseSSEFrame(""), null);
+    assert.equal(parseSSEFrame(": ping"), null);
+    assert.equal(parseSSEFrame("event: response.created"), null);
+  });
+});
+
+describe("readSSEFrames", () => {
+  it("splits frames on blank lines", async () => {
+    assert.deepEqual(await frames(["event: a\ndata: 1\n\nevent: b\ndata: 2\n\n"]), [
+      { event: "a", data: "1" },
+      { event: "b", data: "2" },
+    ]);
+  });
+
+  it("keeps multi-line data together", async () => {
+    assert.deepEqual(await frames(["data: {\ndata: \"x\": 1\ndata: }\n\n"]), [{ event: undefined, data: '{\n"x": 1\n}' }]);
+  });
+
+  it("handles CRLF line endings", async () => {
+    assert.deepEqual(await frames(["event: a\r\ndata: 1\r\n\r\nevent: b\r\ndata: 2\r\n\r\n"]), [
+      { event: "a", data: "1" },
+      { event: "b", data: "2" },
+    ]);
+  });
+
+  it("handles a CRLF split across chunks", async () => {
+    assert.deepEqual(await frames(["data: 1\r\n\r", "\ndata: 2\r", "\n\r\n"]), [
+      { event: undefined, data: "1" },
+      { event: undefined, data: "2" },
+    ]);
+  });
+
+  it("reassembles a frame split across chunks", async () => {
+    assert.deepEqual(await frames(["eve", "nt: a\nda", "ta: hel", "lo\n", "\n"]), [{ event: "a", data: "hello" }]);
+  });
+
+  it("reassembles multi-byte characters split across chunks", async () => {
+    const bytes = new TextEncoder().encode("data: héllo ✓\n\n");
+    assert.deepEqual(await frames([bytes.slice(0, 8), bytes.slice(8, 14), bytes.slice(14)]), [
+      { event: undefined, data: "héllo ✓" },
+    ]);
+  });
+
+  it("emits a trailing frame without a blank line", async () => {
+    assert.deepEqual(await frames(["data: 1\n\ndata: 2"]), [
+      { event: undefined, data: "1" },
+      { event: undefined, data: "2" },
+    ]);
+  });
+
+  it("skips comment-only frames", async () => {
+    assert.deepEqual(await frames([": ping\n\ndata: 1\n\n"]), [{ event: undefined, data: "1" }]);
+  });
+});
+
+describe("ResponsesStreamMapper (recorded streams)", () => {
+  it("maps a text response: deltas, then usage and final", async () => {
+    const events = await replay(fixture("text"));
+    assert.deepEqual(
+      events.map((e) => e.type),
+      ["text_delta", "text_delta", "text_delta", "usage", "final"]
+    );
+    assert.deepEqual(
+      events.filter((e) => e.type === "text_delta").map((e) => (e.data as { text: string }).text),
+      ["Hello", ", world", "!"]
+    );
+    assert.deepEqual(events[3].data, {
+      input_tokens: 12,
+      input_tokens_details: { cached_tokens: 0 },
+      output_tokens: 4,
+      output_tokens_details: { reasoning_tokens: 0 },
+      total_tokens: 16,
+    });
+    const final = events[4];
+    assert.equal(final.type, "final");
+    if (final.type !== "final") return;
+    assert.equal(final.data.text, "Hello, world!");
+    assert.equal(final.data.responseId, "resp_68b1c2d3e4f5a6b7");
+    assert.equal(final.data.raw.status, "completed");
+  });
+
+  it("maps the same stream when it arrives in small chunks", async () => {
+    assert.deepEqual(await replay(fixture("text"), 7), await replay(fixture("text")));
+  });
+
+  it("maps the same stream with CRLF line endings", async () => {
+    assert.deepEqual(await replay(fixture("text").replace(/\n/g, "\r\n"), 5), await replay(fixture("text")));
+  });
+
+  it("prefers output_text.done text over the accumulated deltas", async () => {
+    const transcript = [
+      'data: {"type":"response.created","response":{"id":"resp_1"}}',
+      'data: {"type":"response.output_text.delta","item_id":"m","output_index":0,"content_index":0,"delta":"Draft"}',
+      'data: {"type":"response.output_text.done","item_id":"m","output_index":0,"content_index":0,"text":"Final text"}',
+      'data: {"type":"response.completed","response":{"id":"resp_1","status":"completed"}}',
+      "data: [DONE]",
+      "",
+    ].join("\n\n");
+    const events = await replay(transcript);
+    assert.deepEqual(
+      events.map((e) => e.type),
+      ["text_delta", "final"]
+    );
+    assert.equal((events[1].data as { text: string }).text, "Final text");
+  });
+
+  it("falls back to the deltas when no done event arrives", async () => {
+    const transcript = [
+      'data: {"type":"response.created","response":{"id":"resp_2"}}',
+      'data: {"type":"response.output_text.delta","item_id":"m","output_index":0,"content_index":0,"delta":"Only "}',
+      'data: {"type":"response.output_text.delta","item_id":"m","output_index":0,"content_index":0,"delta":"deltas"}',
+      'data: {"type":"response.completed","response":{"status":"completed"}}',
+    ].join("\n\n");
+    const final = (await replay(transcript)).pop();
+    assert.deepEqual(final?.data, { text: "Only deltas", responseId: "resp_2", raw: { status: "completed" } });
+  });
+
+  it("maps file_search_call.* to tool_call events", async () => {
+    const events = await replay(fixture("file_search"));
+    assert.deepEqual(
+      events.filter((e) => e.type === "tool_call").map((e) => e.data),
+      [
+        { tool: "file_search", itemId: "fs_68b1d0e2a0b1c2d3", status: "in_progress" },
+        { tool: "file_search", itemId: "fs_68b1d0e2a0b1c2d3", status: "searching" },
+        { tool: "file_search", itemId: "fs_68b1d0e2a0b1c2d3", status: "completed" },
+      ]
+    );
+    assert.deepEqual(
+      events.map((e) => e.type),
+      ["tool_call", "tool_call", "tool_call", "text_delta", "usage", "final"]
+    );
+    assert.equal((events[5].data as { text: string }).text, "Refunds take 14 days.");
+  });
+
+  it("maps response.failed to an error with the response's code", async () => {
+    const events = await replay(fixture("failed"));
+    assert.deepEqual(
+      events.map((e) => e.type),
+      ["text_delta", "error"]
+    );
+    assert.deepEqual(events[1].data, {
+      error: "The server had an error while processing your request.",
+      code: "server_error",
+      responseId: "resp_68b1e5f6a7b8c9d0",
+    });
+  });
+
+  it("uses a generic message for a failed response without error details", async () => {
+    const events = await replay('data: {"type":"response.failed","response":{"id":"resp_3","status":"failed"}}\n\n');
+    assert.deepEqual(events, [{ type: "error", data: { error: "Response failed", code: undefined, responseId: "resp_3" } }]);
+  });
+
+  it("maps stream error events, keeping the response id seen so far", async () => {
+    const events = await replay(fixture("error"));
+    assert.deepEqual(events, [
+      {
+        type: "error",
+        data: {
+          error: "Rate limit reached for gpt-4.1 in organization org-abc on tokens per min (TPM).",
+          code: "rate_limit_exceeded",
+          responseId: "resp_68b1f0a1b2c3d4e5",
+        },
+      },
+    ]);
+  });
+
+  it("ignores unknown event types and stops at [DONE]", async () => {
+    const transcript = [
+      'data: {"type":"response.in_progress","response":{"id":"resp_4"}}',
+      'data: {"type":"response.output_text.delta","item_id":"m","output_index":0,"content_index":0,"delta":"x"}',
+      "data: [DONE]",
+      'data: {"type":"response.output_text.delta","item_id":"m","output_index":0,"content_index":0,"delta":"after"}',
+    ].join("\n\n");
+    assert.deepEqual(await replay(transcript), [{ type: "text_delta", data: { text: "x" } }]);
+  });
+});
@@ -0,0 +1,463 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { TestServer, getJSON, postForm, postJSON, postSSE, startTestServer, textFile } from "./helpers";
+
+let server: TestServer;
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(async () => {
+  await server?.close();
+});
+
+beforeEach(() => {
+  server.mock.reset();
+});
+
+const routing = (route: string, query: string) =>
+  JSON.stringify({ route, query, confidence: 0.9, reason: `${route} fits` });
+
+describe("GET /agents", () => {
+  it("lists the built-in agents", async () => {
+    const { status, body } = await getJSON(`${server.url}/agents`);
+    assert.equal(status, 200);
+    const names = body.agents.map((a: { name: string }) => a.name);
+    for (const name of ["direct", "rag", "supervisor"]) assert.ok(names.includes(name), `missing ${name}`);
+    const direct = body.agents.find((a: { name: string }) => a.name === "direct");
+    assert.match(direct.description, /params\.functions/);
+    assert.deepEqual(direct.capabilities.tools, ["function"]);
+  });
+});
+
+describe("POST /agents/:name", () => {
+  it("answers 400 for unknown function tools before running the agent", async () => {
+    const { status, body } = await postJSON(`${server.url}/agents/direct`, { input: "hi", params: { functions: ["nope"] } });
+    assert.equal(status, 400);
+    assert.equal(body.error, "Invalid params for agent 'direct'");
+    assert.deepEqual(body.details[0].path, ["functions", 0]);
+    assert.match(body.details[0].message, /Unknown tool: nope/);
+    assert.equal(server.mock.requests.length, 0);
+  });
+
+  it("rejects unknown function tools passed through the supervisor", async () => {
+    const { status, body } = await postJSON(`${server.url}/agents/supervisor`, { input: "hi", params: { functions: ["nope"] } });
+    assert.equal(status, 400);
+    assert.deepEqual(body.details[0].path, ["functions", 0]);
+  });
+});
+
+describe("POST /agents/supervisor", () => {
+  it("routes with the model's decision and stores the turn", async () => {
+    server.mock.enqueueResponse({ text: routing("direct", "Say hi") }, { text: "Hi there!" });
+
+    const { status, body } = await postJSON(`${server.url}/agents/supervisor`, { input: "hello" });
+    assert.equal(status, 200);
+    assert.equal(body.agent, "supervisor");
+    assert.equal(body.text, "Hi there!");
+    assert.equal(body.raw.supervisorMetadata.routingDecision.route, "direct");
+    assert.match(body.conversationId, /^conv_/);
+
+    // The routed query is what the direct agent was asked, inside the session's conversation
+    const answer = server.mock.requests.filter((r) => r.path === "/responses").pop()!;
+    assert.equal(answer.body.input, "Say hi");
+    assert.equal(answer.body.conversation, body.conversationId);
+
+    const stored = await getJSON(`${server.url}/conversations/${body.conversationId}`);
+    assert.equal(stored.status, 200);
+    assert.equal(stored.body.turns.length, 1);
+    assert.deepEqual(
+      { input: stored.body.turns[0].input, agent: stored.body.turns[0].agent, via: stored.body.turns[0].via, output: stored.body.turns[0].output },
+      { input: "hello", agent: "direct", via: "supervisor", output: "Hi there!" }
+    );
+  });
+
+  it("continues a conversation when its id is sent back", async () => {
+    const first = await postJSON(`${server.url}/agents/supervisor`, { input: "one" });
+    const second = await postJSON(`${server.url}/agents/supervisor`, { input: "two", conversationId: first.body.conversationId });
+    assert.equal(second.status, 200);
+    assert.equal(second.body.conversationId, first.body.conversationId);
+
+    const stored = await getJSON(`${server.url}/conversations/${first.body.conversationId}`);
+    assert.deepEqual(
+      stored.body.turns.map((t: { input: string }) => t.input),
+      ["one", "two"]
+    );
+  });
+
+  it("falls back to rag when vector stores are given and the routing output is unusable", async () => {
+    server.mock.enqueueResponse({ text: "not json" });
+    const { status, body } = await postJSON(`${server.url}/agents/supervisor`, { input: "find it", vectorStoreIds: ["vs_1"] });
+    assert.equal(status, 200);
+    assert.equal(body.raw.supervisorMetadata.routingDecision.route, "rag");
+    assert.equal(body.raw.supervisorMetadata.routing.fallbackUsed, true);
+
+    const answer = server.mock.requests.filter((r) => r.path === "/responses").pop()!;
+    assert.deepEqual(
+      answer.body.tools.map((t: { type: string }) => t.type),
+      ["file_search"]
+    );
+  });
+
+  it("answers 400 without input", async () => {
+    const { status } = await postJSON(`${server.url}/agents/supervisor`, {});
+    assert.equal(status, 400);
+  });
+
+  it("answers 400 for params the supervisor does not accept", async () => {
+    const { status, body } = await postJSON(`${server.url}/agents/supervisor`, { input: "hi", params: { mode: "bogus" } });
+    assert.equal(status, 400);
+    assert.equal(body.error, "Invalid params for agent 'supervisor'");
+    assert.deepEqual(body.details[0].path, ["mode"]);
+    assert.equal(server.mock.requests.length, 0);
+  });
+});
+
+describe("file_search options", () => {
+  it("answers 400 with details for invalid options through the supervisor", async () => {
+    const { status, body } = await postJSON(`${server.url}/agents/supervisor`, {
+      input: "find it",
+      vectorStoreIds: ["vs_1"],
+      params: { maxNumResults: 500 },
+    });
+    assert.equal(status, 400);
+    assert.deepEqual(body.details[0].path, ["maxNumResults"]);
+    assert.equal(server.mock.requests.length, 0);
+  });
+
+  it("validates params against the target agent", async () => {
+    const { status, body } = await postJSON(`${server.url}/agents/supervisor`, {
+      input: "find it",
+      targetAgent: "rag",
+      vectorStoreIds: ["vs_1"],
+      params: { filters: { type: "eq", key: "year" } },
+    });
+    assert.equal(status, 400);
+    assert.equal(body.error, "Invalid params for agent 'rag'");
+    assert.deepEqual(body.details[0].path, ["filters"]);
+    assert.equal(server.mock.requests.length, 0);
+  });
+
+  it("answers 400 for an unknown target agent", async () => {
+    const { status, body } = await postJSON(`${server.url}/agents/supervisor`, { input: "hi", targetAgent: "nope" });
+    assert.equal(status, 400);
+    assert.equal(body.error, "Unknown agent 'nope'");
+  });
+
+  it("asks /chat for the retrieved chunks with includeChunks", async () => {
+    const { status } = await postJSON(`${server.url}/chat`, { input: "find it", vectorStoreId: "vs_1", includeChunks: true });
+    assert.equal(status, 200);
+    const request = server.mock.requests.find((r) => r.path === "/responses")!;
+    assert.deepEqual(request.body.include, ["file_search_call.results"]);
+  });
+});
+
+describe("POST /agents/supervisor/stream", () => {
+  it("streams conversation, routing, deltas, usage and final, then done", async () => {
+    server.mock.enqueueResponse({ text: routing("direct", "Stream please") }, { text: "Streamed answer" });
+
+    const events = await postSSE(`${server.url}/agents/supervisor/stream`, { input: "stream it" });
+    const names = events.map((e) => e.event);
+    assert.equal(names[0], "conversation");
+    assert.equal(names[names.length - 1], "done");
+    for (const name of ["routing", "text_delta", "usage", "final"]) assert.ok(names.includes(name), `missing ${name}`);
+    assert.ok(!names.includes("error"));
+
+    const conversationId = events[0].data.conversationId;
+    const deltas = events.filter((e) => e.event === "text_delta").map((e) => e.data.text).join("");
+    const final = events.find((e) => e.event === "final")!.data;
+    assert.equal(deltas, "Streamed answer");
+    assert.equal(final.text, "Streamed answer");
+    assert.equal(final.conversationId, conversationId);
+    assert.equal(events.find((e) => e.event === "routing")!.data.route, "direct");
+
+    const stored = await getJSON(`${server.url}/conversations/${conversationId}`);
+    assert.equal(stored.body.turns[0].output, "Streamed answer");
+    assert.equal(stored.body.turns[0].responseId, final.responseId);
+  });
+
+  it("reports a failed response as an error event and still ends with done", async () => {
+    server.mock.enqueueResponse(
+      { text: routing("direct", "x") },
+      { failed: { code: "server_error", message: "Upstream broke" } }
+    );
+    const events = await postSSE(`${server.url}/agents/supervisor/stream`, { input: "x" });
+    const error = events.find((e) => e.event === "error");
+    assert.equal(error?.data.error, "Upstream broke");
+    assert.equal(events[events.length - 1].event, "done");
+  });
+
+  it("answers 400 JSON for invalid params before the stream starts", async () => {
+    const res = await postJSON(`${server.url}/agents/supervisor/stream`, { input: "x", params: { mode: "bogus" } });
+    assert.equal(res.status, 400);
+    assert.equal(res.body.error, "Invalid params for agent 'supervisor'");
+    assert.deepEqual(res.body.details[0].path, ["mode"]);
+  });
+
+  it("checks params against the target agent", async () => {
+    const res = await postJSON(`${server.url}/agents/supervisor/stream`, { input: "x", targetAgent: "rag" });
+    assert.equal(res.status, 400);
+    assert.deepEqual(res.body.details[0].path, ["vectorStoreIds"]);
+    assert.equal(server.mock.requests.length, 0);
+  });
+});
+
+describe("POST /agents/:name/stream", () => {
+  it("answers 400 JSON for invalid params", async () => {
+    const res = await postJSON(`${server.url}/agents/direct/stream`, { input: "x", params: { functions: ["nope"] } });
+    assert.equal(res.status, 400);
+    assert.equal(res.body.error, "Invalid params for agent 'direct'");
+    assert.equal(server.mock.requests.length, 0);
+  });
+
+  it("answers 404 JSON for an unknown agent", async () => {
+    const res = await postJSON(`${server.url}/agents/nope/stream`, { input: "x" });
+    assert.equal(res.status, 404);
+  });
+});
+
+describe("vector stores", () => {
+  it("creates a store, ingests the uploaded files and waits for them", async () => {
+    const form = new FormData();
+    form.append("name", "handbook");
+    form.append("files", ...textFile("policy.txt", "Refunds take 14 days."));
+    form.append("files", ...textFile("faq.md", "# FAQ\n\nShipping is free.", "text/markdown"));
+
+    const { status, body } = await postForm(`${server.url}/vector-stores?wait=true`, form);
+    assert.equal(status, 200);
+    assert.match(body.vectorStore.id, /^vs_/);
+    assert.equal(body.uploadedFileIds.length, 2);
+    assert.equal(body.ingestion.done, true);
+    assert.deepEqual(
+      body.ingestion.files.map((f: { filename: string; status: string }) => [f.filename, f.status]).sort(),
+      [
+        ["faq.md", "completed"],
+        ["policy.txt", "completed"],
+      ]
+    );
+    assert.equal(server.mock.state.vectorStoreFiles.get(body.vectorStore.id)?.size, 2);
+  });
+
+  it("returns the whole parsed content across pages", async () => {
+    const text = Array.from({ length: 250 }, (_, i) => `Line ${i + 1}`).join("\n");
+    const form = new FormData();
+    form.append("name", "long");
+    form.append("files", ...textFile("long.txt", text));
+    const { body: created } = await postForm(`${server.url}/vector-stores?wait=true`, form);
+
+    const { status, body } = await getJSON(`${server.url}/vector-stores/${created.vectorStore.id}/files/${created.uploadedFileIds[0]}/content`);
+    assert.equal(status, 200);
+    assert.equal(body.text, text);
+    assert.equal(body.content.data.length, 250);
+    assert.equal(body.content.has_more, false);
+    assert.equal(server.mock.requests.filter((r) => r.path.endsWith("/content")).length, 3);
+  });
+
+  it("skips content already in the store", async () => {
+    const create = new FormData();
+    create.append("name", "dedupe");
+    create.append("files", ...textFile("a.txt", "same content"));
+    const { body: created } = await postForm(`${server.url}/vector-stores?wait=true`, create);
+    const storeId = created.vectorStore.id;
+
+    const again = new FormData();
+    again.append("files", ...textFile("copy-of-a.txt", "same content"));
+    const { status, body } = await postForm(`${server.url}/vector-stores/${storeId}/files`, again);
+    assert.equal(status, 200);
+    assert.equal(body.jobId, null);
+    assert.deepEqual(
+      body.uploads.map((u: { action: string; fileId: string }) => [u.action, u.fileId]),
+      [["skipped", created.uploadedFileIds[0]]]
+    );
+  });
+
+  it("sets the request's attributes on a skipped duplicate", async () => {
+    const create = new FormData();
+    create.append("name", "dedupe-attributes");
+    create.append("files", ...textFile("a.txt", "same content"));
+    const { body: created } = await postForm(`${server.url}/vector-stores?wait=true`, create);
+    const storeId = created.vectorStore.id;
+    const fileId = created.uploadedFileIds[0];
+
+    const again = new FormData();
+    again.append("attributes", JSON.stringify({ team: "support" }));
+    again.append("fileAttributes", JSON.stringify({ "copy-of-a.txt": { version: 2 } }));
+    again.append("files", ...textFile("copy-of-a.txt", "same content"));
+    const { body } = await postForm(`${server.url}/vector-stores/${storeId}/files`, again);
+    assert.deepEqual(
+      body.uploads.map((u: { action: string; attributesUpdated?: boolean }) => [u.action, u.attributesUpdated]),
+      [["skipped", true]]
+    );
+    assert.deepEqual(server.mock.state.vectorStoreFiles.get(storeId)!.get(fileId).attributes, { team: "support", version: 2 });
+
+    // Without attributes the existing file is left alone
+    const plain = new FormData();
+    plain.append("files", ...textFile("a.txt", "same content"));
+    const { body: untouched } = await postForm(`${server.url}/vector-stores/${storeId}/files`, plain);
+    assert.equal(untouched.uploads[0].attributesUpdated, undefined);
+    assert.deepEqual(server.mock.state.vectorStoreFiles.get(storeId)!.get(fileId).attributes, { team: "support", version: 2 });
+  });
+
+  it("replaces a stored copy and points in-request copies at the new file", async () => {
+    const create = new FormData();
+    create.append("name", "replace");
+    create.append("files", ...textFile("v1.txt", "versioned content"));
+    const { body: created } = await postForm(`${server.url}/vector-stores?wait=true`, create);
+    const storeId = created.vectorStore.id;
+    const oldId = created.uploadedFileIds[0];
+
+    const again = new FormData();
+    again.append("onDuplicate", "replace");
+    again.append("files", ...textFile("v2.txt", "versioned content"));
+    again.append("files", ...textFile("v2-copy.txt", "versioned content"));
+    const { body } = await postForm(`${server.url}/vector-stores/${storeId}/files?wait=true`, again);
+
+    const [replaced, copy] = body.uploads;
+    assert.equal(replaced.action, "replaced");
+    assert.equal(replaced.duplicateOf, oldId);
+    assert.notEqual(replaced.fileId, oldId);
+    assert.equal(copy.action, "skipped");
+    assert.equal(copy.fileId, replaced.fileId);
+    assert.deepEqual(Array.from(server.mock.state.vectorStoreFiles.get(storeId)!.keys()), [replaced.fileId]);
+  });
+
+  it("persists the duplicate index", async () => {
+    const create = new FormData();
+    create.append("name", "persisted");
+    create.append("files", ...textFile("kept.txt", "persisted content"));
+    const { body } = await postForm(`${server.url}/vector-stores?wait=true`, create);
+
+    const stored = JSON.parse(fs.readFileSync(process.env.UPLOAD_INDEX_FILE!, "utf8"));
+    assert.deepEqual(stored[body.vectorStore.id], { [body.uploads[0].hash]: body.uploadedFileIds[0] });
+  });
+
+  it("reports per-file ingestion status for a job", async () => {
+    const create = new FormData();
+    create.append("name", "status");
+    const { body: created } = await postForm(`${server.url}/vector-stores`, create);
+
+    const upload = new FormData();
+    upload.append("files", ...textFile("empty.txt", ""));
+    upload.append("files", ...textFile("notes.txt", "Some notes"));
+    const { body } = await postForm(`${server.url}/vector-stores/${created.vectorStore.id}/files?wait=true`, upload);
+
+    const { status, body: job } = await getJSON(`${server.url}/vector-stores/${created.vectorStore.id}/ingestions/${body.jobId}`);
+    assert.equal(status, 200);
+    assert.equal(job.done, true);
+    const byName = Object.fromEntries(job.files.map((f: { filename: string }) => [f.filename, f]));
+    assert.equal(byName["notes.txt"].status, "completed");
+    assert.equal(byName["empty.txt"].status, "failed");
+    assert.ok(byName["empty.txt"].lastError);
+  });
+
+  it("rejects unsupported file types before anything reaches OpenAI", async () => {
+    const form = new FormData();
+    form.append("files", ...textFile("tool.exe", "MZ", "application/octet-stream"));
+    const { status } = await postForm(`${server.url}/vector-stores/vs_any/files`, form);
+    assert.equal(status, 415);
+    assert.equal(server.mock.requests.length, 0);
+  });
+
+  it("rejects preprocessing patterns that do not compile with 400", async () => {
+    const form = new FormData();
+    form.append("preprocess", JSON.stringify([{ name: "strip_boilerplate", options: { patterns: ["(("] } }]));
+    form.append("files", ...textFile("a.txt", "text"));
+    const { status, body } = await postForm(`${server.url}/vector-stores/vs_any/files`, form);
+    assert.equal(status, 400);
+    assert.deepEqual(body.details[0].path, ["preprocess", 0, "options", "patterns", 0]);
+    assert.equal(server.mock.requests.length, 0);
+  });
+
+  it("rejects files whose attributes exceed the limits once preprocessors add theirs", async () => {
+    // 15 request attributes + word_count and char_count from text_stats = 17 keys
+    const attributes = Object.fromEntries(Array.from({ length: 15 }, (_, i) => [`key${i}`, i]));
+    const form = new FormData();
+    form.append("attributes", JSON.stringify(attributes));
+    form.append("preprocess", "text_stats");
+    form.append("files", ...textFile("stats.txt", "a few words"));
+    const { status, body } = await postForm(`${server.url}/vector-stores/vs_any/files`, form);
+    assert.equal(status, 400);
+    assert.equal(body.error, "Invalid attributes for stats.txt");
+    assert.equal(body.details[0].filename, "stats.txt");
+    assert.match(body.details[0].issues[0].message, /at most 16 keys/);
+    assert.equal(server.mock.requests.length, 0);
+  });
+
+  it("checks per-file attributes when creating a store and removes the empty store", async () => {
+    const form = new FormData();
+    form.append("name", "limits");
+    // Both sets are valid on their own; merged for many.txt they have 20 keys
+    const keys = (prefix: string) => Object.fromEntries(Array.from({ length: 10 }, (_, i) => [`${prefix}${i}`, i]));
+    form.append("attributes", JSON.stringify(keys("shared")));
+    form.append("fileAttributes", JSON.stringify({ "many.txt": keys("own") }));
+    form.append("files", ...textFile("ok.txt", "fine"));
+    form.append("files", ...textFile("many.txt", "too many keys"));
+    const { status, body } = await postForm(`${server.url}/vector-stores`, form);
+    assert.equal(status, 400);
+    assert.deepEqual(
+      body.details.map((d: { filename: string }) => d.filename),
+      ["many.txt"]
+    );
+    assert.equal(server.mock.requests.filter((r) => r.path === "/files").length, 0);
+    assert.equal(server.mock.state.vectorStores.size, 0);
+  });
+
+  it("answers with retrieved chunks from the rag agent", async () => {
+    const create = new FormData();
+    create.append("name", "rag");
+    create.append("files", ...textFile("policy.txt", "Refunds take 14 days after delivery."));
+    const { body: created } = await postForm(`${server.url}/vector-stores?wait=true`, create);
+
+    const { status, body } = await postJSON(`${server.url}/agents/rag`, {
+      input: "How long do refunds take?",
+      vectorStoreIds: [created.vectorStore.id],
+    });
+    assert.equal(status, 200);
+    assert.equal(body.agent, "rag");
+    const answer = server.mock.requests.filter((r) => r.path === "/responses").pop()!;
+    assert.deepEqual(answer.body.tools[0].vector_store_ids, [created.vectorStore.id]);
+  });
+});
+
+describe("conversations", () => {
+  it("lists, exports, imports and deletes conversations", async () => {
+    const { body: turn } = await postJSON(`${server.url}/agents/direct`, { input: "Remember the number 42" });
+    const id = turn.conversationId;
+
+    const list = await getJSON(`${server.url}/conversations`);
+    assert.ok(list.body.data.some((c: { id: string }) => c.id === id));
+
+    const exported = await getJSON(`${server.url}/conversations/${id}/export`);
+    assert.equal(exported.status, 200);
+    assert.equal(exported.body.format, "conversation-export");
+    assert.equal(exported.body.conversation.turns[0].input, "Remember the number 42");
+    assert.equal(exported.body.conversation.backing, undefined);
+
+    const markdown = await fetch(`${server.url}/conversations/${id}/export?format=markdown`);
+    assert.match(markdown.headers.get("content-type") || "", /^text\/markdown/);
+    assert.match(await markdown.text(), /> Remember the number 42/);
+
+    // Importing starts a new conversation whose server-side context holds the old messages
+    const imported = await postJSON(`${server.url}/conversations/import`, exported.body);
+    assert.equal(imported.status, 201);
+    assert.notEqual(imported.body.conversationId, id);
+    assert.equal(imported.body.turnCount, 1);
+    const seeded = server.mock.state.conversations.get(imported.body.conversationId);
+    assert.deepEqual(
+      seeded?.items.map((item) => item.role),
+      ["user", "assistant"]
+    );
+
+    const removed = await fetch(`${server.url}/conversations/${id}`, { method: "DELETE" });
+    assert.equal(removed.status, 200);
+    assert.equal((await getJSON(`${server.url}/conversations/${id}`)).status, 404);
+  });
+
+  it("rejects invalid imports with 400", async () => {
+    const { status, body } = await postJSON(`${server.url}/conversations/import`, { turns: [] });
+    assert.equal(status, 400);
+    assert.ok(body.details);
+  });
+});
@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { TestServer, postJSON, postSSE, startTestServer } from "./helpers";
+
+let server: TestServer;
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(async () => {
+  await server?.close();
+});
+
+beforeEach(() => {
+  server.mock.reset();
+});
+
+const responseRequests = () => server.mock.requests.filter((r) => r.path === "/responses");
+const callTime = { functionCalls: [{ name: "current_time", arguments: { timeZone: "Europe/Paris" } }] };
+
+describe("function tool loop", () => {
+  it("executes a call and feeds its output back", async () => {
+    server.mock.enqueueResponse(callTime, { text: "It is noon in Paris." });
+
+    const { status, body } = await postJSON(`${server.url}/agents/direct`, { input: "What time is it?", params: { functions: ["current_time"] } });
+    assert.equal(status, 200);
+    assert.equal(body.text, "It is noon in Paris.");
+    const { toolRun } = body.raw;
+    assert.deepEqual([toolRun.iterations, toolRun.maxIterationsReached, toolRun.responseIds.length], [1, false, 2]);
+    assert.equal(toolRun.steps[0].name, "current_time");
+    assert.equal(toolRun.steps[0].ok, true);
+    assert.equal(toolRun.steps[0].output.timeZone, "Europe/Paris");
+
+    const [first, second] = responseRequests();
+    assert.deepEqual(
+      first.body.tools.map((t: { type: string; name: string }) => [t.type, t.name]),
+      [["function", "current_time"]]
+    );
+    assert.equal(second.body.input[0].type, "function_call_output");
+    assert.equal(second.body.input[0].call_id, toolRun.steps[0].callId);
+    assert.equal(JSON.parse(second.body.input[0].output).timeZone, "Europe/Paris");
+  });
+
+  it("stops at maxToolIterations and asks for an answer without tools", async () => {
+    server.mock.enqueueResponse(callTime, callTime, { text: "Answer without more tools." });
+
+    const { body } = await postJSON(`${server.url}/agents/direct`, {
+      input: "What time is it?",
+      params: { functions: ["current_time"], maxToolIterations: 1 },
+    });
+    assert.equal(body.text, "Answer without more tools.");
+    assert.equal(body.raw.toolRun.maxIterationsReached, true);
+    assert.equal(body.raw.toolRun.steps.length, 1);
+    assert.equal(body.raw.toolRun.responseIds.length, 3);
+
+    const last = responseRequests().pop()!;
+    assert.equal(last.body.tool_choice, "none");
+    assert.match(JSON.parse(last.body.input[0].output).error, /limit reached/);
+  });
+
+  it("reports a call to an unknown function as a failed step and continues", async () => {
+    server.mock.enqueueResponse({ functionCalls: [{ name: "launch_rockets", arguments: {} }] }, { text: "I cannot do that." });
+
+    const { body } = await postJSON(`${server.url}/agents/direct`, { input: "Launch", params: { functions: ["current_time"] } });
+    assert.equal(body.text, "I cannot do that.");
+    const [step] = body.raw.toolRun.steps;
+    assert.equal(step.ok, false);
+    assert.equal(step.error, "Unknown tool: launch_rockets");
+    assert.equal(JSON.parse(responseRequests()[1].body.input[0].output).error, "Unknown tool: launch_rockets");
+  });
+
+  it("streams tool_call events and ends with text when the limit is hit", async () => {
+    server.mock.enqueueResponse(callTime, callTime, { text: "Streamed answer." });
+
+    const events = await postSSE(`${server.url}/agents/direct/stream`, {
+      input: "What time is it?",
+      params: { functions: ["current_time"], maxToolIterations: 1 },
+    });
+    assert.deepEqual(
+      events.filter((e) => e.event === "tool_call").map((e) => e.data.status),
+      ["in_progress", "completed"]
+    );
+    const final = events.find((e) => e.event === "final")!;
+    assert.equal(final.data.text, "Streamed answer.");
+    assert.equal(final.data.raw.toolRun.maxIterationsReached, true);
+    assert.equal(responseRequests().pop()!.body.tool_choice, "none");
+  });
+});
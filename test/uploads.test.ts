@@ -0,0 +1,152 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import type { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import type { Server } from "node:http";
+import { after, before, describe, it } from "node:test";
+import express from "express";
+import type { UploadPolicy } from "../src/routes/uploads";
+
+// Read by routes/uploads.ts when it loads
+const uploadDir = fs.mkdtempSync(path.join(os.tmpdir(), "uploads-test-"));
+process.env.UPLOAD_DIR = uploadDir;
+
+let server: Server;
+let url: string;
+// Files each request handed to the route, or undefined when the middleware answered itself
+let received: Array<{ originalname: string; size: number }> | undefined;
+
+const policy = (overrides: Partial<UploadPolicy> = {}): UploadPolicy => ({
+  name: "document",
+  maxFileBytes: 1000,
+  maxFiles: 5,
+  maxTotalBytes: 1500,
+  extensions: [".txt", ".md"],
+  mimeTypes: ["text/plain", "text/markdown"],
+  storage: "memory",
+  ...overrides,
+});
+
+before(async () => {
+  const { acceptUploads } = await import("../src/routes/uploads");
+  const app = express();
+  const route = (p: UploadPolicy) => [
+    acceptUploads(p, "files"),
+    (req: express.Request, res: express.Response) => {
+      received = ((req as any).files as any[]).map((f) => ({ originalname: f.originalname, size: f.size }));
+      res.json({ ok: true });
+    },
+  ];
+  app.post("/memory", ...route(policy()));
+  app.post("/disk", ...route(policy({ storage: "disk" })));
+  server = await new Promise((resolve) => {
+    const s = app.listen(0, "127.0.0.1", () => resolve(s));
+  });
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  fs.rmSync(uploadDir, { recursive: true, force: true });
+});
+
+type Part = { name: string; type: string; content: string };
+
+// Multipart body sent chunked, so there is no Content-Length to pre-check
+async function upload(route: string, parts: Part[]): Promise<{ status: number; body: any }> {
+  received = undefined;
+  const boundary = "----upload-test-boundary";
+  const encoder = new TextEncoder();
+  const chunks = [
+    ...parts.map(
+      (p) =>
+        `--${boundary}\r\nContent-Disposition: form-data; name="files"; filename="${p.name}"\r\n` +
+        `Content-Type: ${p.type}\r\n\r\n${p.content}\r\n`
+    ),
+    `--${boundary}--\r\n`,
+  ];
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+  const res = await fetch(`${url}${route}`, {
+    method: "POST",
+    headers: { "Content-Type": `multipart/form-data; boundary=${boundary}` },
+    body,
+    duplex: "half",
+  } as RequestInit);
+  return { status: res.status, body: await res.json() };
+}
+
+describe("upload types", () => {
+  it("accepts a listed extension with a listed or generic MIME type", async () => {
+    const { status } = await upload("/memory", [
+      { name: "a.txt", type: "text/plain", content: "a" },
+      { name: "b.md", type: "application/octet-stream", content: "b" },
+    ]);
+    assert.equal(status, 200);
+    assert.deepEqual(
+      received?.map((f) => f.originalname),
+      ["a.txt", "b.md"]
+    );
+  });
+
+  it("rejects an unlisted extension even with a listed MIME type", async () => {
+    const { status, body } = await upload("/memory", [{ name: "x.exe", type: "text/plain", content: "MZ" }]);
+    assert.equal(status, 415);
+    assert.match(body.error, /x\.exe/);
+    assert.equal(received, undefined);
+  });
+
+  it("rejects a listed extension with an unlisted MIME type", async () => {
+    const { status } = await upload("/memory", [{ name: "x.txt", type: "application/x-msdownload", content: "MZ" }]);
+    assert.equal(status, 415);
+    assert.equal(received, undefined);
+  });
+
+  it("rejects files without an extension", async () => {
+    const { status } = await upload("/memory", [{ name: "README", type: "text/plain", content: "x" }]);
+    assert.equal(status, 415);
+  });
+});
+
+describe("upload size limits", () => {
+  it("accepts files within the total limit", async () => {
+    const { status } = await upload("/memory", [
+      { name: "a.txt", type: "text/plain", content: "a".repeat(700) },
+      { name: "b.txt", type: "text/plain", content: "b".repeat(700) },
+    ]);
+    assert.equal(status, 200);
+  });
+
+  it("rejects a file over the per-file limit", async () => {
+    const { status, body } = await upload("/memory", [{ name: "a.txt", type: "text/plain", content: "a".repeat(1001) }]);
+    assert.equal(status, 413);
+    assert.equal(body.code, "LIMIT_FILE_SIZE");
+  });
+
+  it("stops a chunked request once the total is over the limit", async () => {
+    const { status, body } = await upload("/memory", [
+      { name: "a.txt", type: "text/plain", content: "a".repeat(800) },
+      { name: "b.txt", type: "text/plain", content: "b".repeat(800) },
+      { name: "c.txt", type: "text/plain", content: "c".repeat(800) },
+    ]);
+    assert.equal(status, 413);
+    assert.match(body.error, /1500 byte total limit/);
+    assert.equal(received, undefined);
+  });
+
+  it("removes disk-stored files when the total is over the limit", async () => {
+    const { status } = await upload("/disk", [
+      { name: "a.txt", type: "text/plain", content: "a".repeat(800) },
+      { name: "b.txt", type: "text/plain", content: "b".repeat(800) },
+    ]);
+    assert.equal(status, 413);
+    // Removal of the files stored before the cut-off finishes right after the response
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.deepEqual(fs.readdirSync(uploadDir), []);
+  });
+});
@@ -0,0 +1,131 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { TestServer, postForm, postJSON, startTestServer, textFile } from "./helpers";
+
+let server: TestServer;
+let handbook: string;
+let faq: string;
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(async () => {
+  await server?.close();
+});
+
+async function createStore(name: string, files: Record<string, string>, fileAttributes: Record<string, unknown> = {}) {
+  const form = new FormData();
+  form.append("name", name);
+  form.append("fileAttributes", JSON.stringify(fileAttributes));
+  for (const [filename, content] of Object.entries(files)) form.append("files", ...textFile(filename, content));
+  const { body } = await postForm(`${server.url}/vector-stores?wait=true`, form);
+  return body.vectorStore.id as string;
+}
+
+// The mock scores a chunk by the share of query terms it contains
+beforeEach(async () => {
+  server.mock.reset();
+  handbook = await createStore(
+    "handbook",
+    { "refunds.txt": "Refund policy: the window is 14 days.", "policies.txt": "Every policy is reviewed yearly." },
+    { "refunds.txt": { team: "billing" }, "policies.txt": { team: "legal" } }
+  );
+  faq = await createStore("faq", { "faq.txt": "Refund policy questions." });
+  server.mock.requests.length = 0;
+});
+
+const searchRequests = () => server.mock.requests.filter((r) => r.path.endsWith("/search"));
+const hits = (body: any) => body.results.map((r: any) => [r.rank, r.vectorStoreId, r.filename]);
+
+describe("POST /vector-stores/search", () => {
+  it("merges the hits of several stores by score", async () => {
+    const { status, body } = await postJSON(`${server.url}/vector-stores/search`, {
+      vectorStoreIds: [faq, handbook],
+      query: "refund policy window",
+    });
+    assert.equal(status, 200);
+    assert.deepEqual(hits(body), [
+      [1, handbook, "refunds.txt"],
+      [2, faq, "faq.txt"],
+      [3, handbook, "policies.txt"],
+    ]);
+    const scores = body.results.map((r: { score: number }) => r.score);
+    assert.deepEqual(scores, [...scores].sort((a, b) => b - a));
+    assert.deepEqual(Object.keys(body.searchQueries).sort(), [faq, handbook].sort());
+  });
+
+  it("keeps maxNumResults hits overall", async () => {
+    const { body } = await postJSON(`${server.url}/vector-stores/search`, {
+      vectorStoreIds: [faq, handbook],
+      query: "refund policy window",
+      maxNumResults: 2,
+    });
+    assert.deepEqual(hits(body), [
+      [1, handbook, "refunds.txt"],
+      [2, faq, "faq.txt"],
+    ]);
+    assert.deepEqual(
+      searchRequests().map((r) => r.body.max_num_results),
+      [2, 2]
+    );
+  });
+
+  it("searches each store once and passes the filters on", async () => {
+    const filters = { type: "eq", key: "team", value: "legal" };
+    const { body } = await postJSON(`${server.url}/vector-stores/search`, {
+      vectorStoreIds: [handbook, handbook],
+      query: "policy",
+      filters,
+    });
+    assert.deepEqual(hits(body), [[1, handbook, "policies.txt"]]);
+    assert.equal(searchRequests().length, 1);
+    assert.deepEqual(searchRequests()[0].body.filters, filters);
+  });
+
+  it("answers 400 for invalid filters or a missing store list", async () => {
+    for (const body of [
+      { vectorStoreIds: [handbook], query: "policy", filters: { type: "near", key: "team", value: "legal" } },
+      { vectorStoreIds: [handbook], query: "policy", filters: { type: "and", filters: [] } },
+      { vectorStoreIds: [], query: "policy" },
+    ]) {
+      const res = await postJSON(`${server.url}/vector-stores/search`, body);
+      assert.equal(res.status, 400, JSON.stringify(body));
+      assert.equal(res.body.error, "Invalid search request");
+    }
+    assert.equal(searchRequests().length, 0);
+  });
+});
+
+describe("POST /vector-stores/:id/search", () => {
+  it("returns the ranked hits of one store", async () => {
+    const { status, body } = await postJSON(`${server.url}/vector-stores/${handbook}/search`, {
+      query: "Refund policy?",
+      rewriteQuery: true,
+      rankingOptions: { scoreThreshold: 0.6 },
+    });
+    assert.equal(status, 200);
+    assert.deepEqual(hits(body), [[1, handbook, "refunds.txt"]]);
+    assert.deepEqual(body.results[0].attributes, { team: "billing" });
+    assert.deepEqual(body.searchQueries, { [handbook]: ["refund policy"] });
+    assert.deepEqual(searchRequests()[0].body.ranking_options, { score_threshold: 0.6 });
+  });
+
+  it("answers 400 for invalid filters and options", async () => {
+    for (const body of [
+      { query: "policy", filters: { type: "eq", key: "team" } },
+      { query: "policy", maxNumResults: 0 },
+      { query: "" },
+    ]) {
+      const res = await postJSON(`${server.url}/vector-stores/${handbook}/search`, body);
+      assert.equal(res.status, 400, JSON.stringify(body));
+      assert.ok(res.body.details.length > 0);
+    }
+    assert.equal(searchRequests().length, 0);
+  });
+
+  it("answers 404 for an unknown store", async () => {
+    const { status } = await postJSON(`${server.url}/vector-stores/vs_missing/search`, { query: "policy" });
+    assert.equal(status, 404);
+  });
+});
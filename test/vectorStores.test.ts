@@ -0,0 +1,183 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { TestServer, deleteJSON, getJSON, patchJSON, postForm, startTestServer, textFile } from "./helpers";
+
+let server: TestServer;
+
+before(async () => {
+  server = await startTestServer();
+});
+
+after(async () => {
+  await server?.close();
+});
+
+beforeEach(() => {
+  server.mock.reset();
+});
+
+const STATIC = { type: "static", static: { max_chunk_size_tokens: 400, chunk_overlap_tokens: 100 } };
+
+async function createStore(fields: Record<string, string> = {}) {
+  const form = new FormData();
+  form.append("name", "store");
+  for (const [key, value] of Object.entries(fields)) form.append(key, value);
+  form.append("files", ...textFile("first.txt", "First document."));
+  const { status, body } = await postForm(`${server.url}/vector-stores?wait=true`, form);
+  assert.equal(status, 200);
+  return body;
+}
+
+async function upload(storeId: string, content: string, fields: Record<string, string> = {}) {
+  const form = new FormData();
+  for (const [key, value] of Object.entries(fields)) form.append(key, value);
+  form.append("files", ...textFile(`${content}.txt`, content));
+  const { status, body } = await postForm(`${server.url}/vector-stores/${storeId}/files?wait=true`, form);
+  assert.equal(status, 200);
+  return body;
+}
+
+// chunking_strategy sent with the last file batch
+const lastBatchStrategy = () =>
+  server.mock.requests.filter((r) => r.path.endsWith("/file_batches")).pop()!.body.chunking_strategy;
+
+describe("chunking strategy", () => {
+  it("keeps the strategy given at creation as the store default", async () => {
+    const { vectorStore, ingestion } = await createStore({ chunking_strategy: JSON.stringify(STATIC) });
+    assert.deepEqual(JSON.parse(vectorStore.metadata.chunking_strategy), STATIC);
+    assert.deepEqual(lastBatchStrategy(), STATIC);
+    assert.deepEqual(ingestion.files[0].chunkingStrategy, STATIC);
+  });
+
+  it("reuses the store default for later uploads", async () => {
+    const { vectorStore } = await createStore({ chunking_strategy: JSON.stringify(STATIC) });
+    const { ingestion } = await upload(vectorStore.id, "second");
+    assert.deepEqual(lastBatchStrategy(), STATIC);
+    assert.deepEqual(ingestion.files[0].chunkingStrategy, STATIC);
+  });
+
+  it("lets an upload override the default without changing it", async () => {
+    const { vectorStore } = await createStore({ chunking_strategy: JSON.stringify(STATIC) });
+    await upload(vectorStore.id, "second", { chunking_strategy: JSON.stringify({ type: "auto" }) });
+    assert.deepEqual(lastBatchStrategy(), { type: "auto" });
+
+    const { body: store } = await getJSON(`${server.url}/vector-stores/${vectorStore.id}`);
+    assert.deepEqual(JSON.parse(store.metadata.chunking_strategy), STATIC);
+  });
+
+  it("sends no strategy for stores without a default", async () => {
+    const { vectorStore } = await createStore();
+    assert.equal(vectorStore.metadata.chunking_strategy, undefined);
+    await upload(vectorStore.id, "second");
+    assert.equal(lastBatchStrategy(), undefined);
+  });
+
+  it("keeps the default when PATCH replaces the metadata", async () => {
+    const { vectorStore } = await createStore({ chunking_strategy: JSON.stringify(STATIC) });
+    const { status, body } = await patchJSON(`${server.url}/vector-stores/${vectorStore.id}`, { metadata: { owner: "support" } });
+    assert.equal(status, 200);
+    assert.equal(body.metadata.owner, "support");
+    assert.deepEqual(JSON.parse(body.metadata.chunking_strategy), STATIC);
+
+    await upload(vectorStore.id, "second");
+    assert.deepEqual(lastBatchStrategy(), STATIC);
+  });
+
+  it("changes or clears the default with PATCH, keeping the other metadata", async () => {
+    const { vectorStore } = await createStore({ chunking_strategy: JSON.stringify(STATIC) });
+    await patchJSON(`${server.url}/vector-stores/${vectorStore.id}`, { metadata: { owner: "support" } });
+
+    const changed = await patchJSON(`${server.url}/vector-stores/${vectorStore.id}`, { chunking_strategy: { type: "auto" } });
+    assert.deepEqual(changed.body.metadata, { owner: "support", chunking_strategy: JSON.stringify({ type: "auto" }) });
+
+    const cleared = await patchJSON(`${server.url}/vector-stores/${vectorStore.id}`, { chunking_strategy: null });
+    assert.deepEqual(cleared.body.metadata, { owner: "support" });
+    await upload(vectorStore.id, "second");
+    assert.equal(lastBatchStrategy(), undefined);
+  });
+
+  it("answers 400 for invalid strategies", async () => {
+    const overlap = { type: "static", static: { max_chunk_size_tokens: 400, chunk_overlap_tokens: 300 } };
+    const form = new FormData();
+    form.append("name", "invalid");
+    form.append("chunking_strategy", JSON.stringify(overlap));
+    assert.equal((await postForm(`${server.url}/vector-stores`, form)).status, 400);
+
+    const { vectorStore } = await createStore();
+    const { status, body } = await patchJSON(`${server.url}/vector-stores/${vectorStore.id}`, { chunking_strategy: overlap });
+    assert.equal(status, 400);
+    assert.match(JSON.stringify(body.details), /chunk_overlap_tokens must not exceed half/);
+  });
+});
+
+describe("vector store updates and deletion", () => {
+  it("updates the name and expiry", async () => {
+    const { vectorStore } = await createStore();
+    const expires_after = { anchor: "last_active_at", days: 7 };
+    const { status, body } = await patchJSON(`${server.url}/vector-stores/${vectorStore.id}`, { name: "renamed", expires_after });
+    assert.equal(status, 200);
+    assert.equal(body.name, "renamed");
+    assert.deepEqual(body.expires_after, expires_after);
+
+    const cleared = await patchJSON(`${server.url}/vector-stores/${vectorStore.id}`, { expires_after: null });
+    assert.equal(cleared.body.expires_after, null);
+    assert.equal(cleared.body.name, "renamed");
+  });
+
+  it("answers 400 for empty or invalid updates and 404 for unknown stores", async () => {
+    const { vectorStore } = await createStore();
+    for (const update of [{}, { expires_after: { anchor: "created_at", days: 7 } }, { name: 42 }]) {
+      const { status } = await patchJSON(`${server.url}/vector-stores/${vectorStore.id}`, update);
+      assert.equal(status, 400, JSON.stringify(update));
+    }
+    assert.equal((await patchJSON(`${server.url}/vector-stores/vs_missing`, { name: "x" })).status, 404);
+    assert.equal((await patchJSON(`${server.url}/vector-stores/vs_missing`, { metadata: { a: "b" } })).status, 404);
+  });
+
+  it("deletes a store but keeps its file objects", async () => {
+    const { vectorStore, uploadedFileIds } = await createStore();
+    const { status, body } = await deleteJSON(`${server.url}/vector-stores/${vectorStore.id}`);
+    assert.equal(status, 200);
+    assert.deepEqual(body, { id: vectorStore.id, object: "vector_store.deleted", deleted: true });
+    assert.equal((await getJSON(`${server.url}/vector-stores/${vectorStore.id}`)).status, 404);
+    assert.ok(server.mock.state.files.has(uploadedFileIds[0]));
+    assert.equal((await deleteJSON(`${server.url}/vector-stores/${vectorStore.id}`)).status, 404);
+  });
+
+  it("detaches a file, deleting the file object only with deleteFile=true", async () => {
+    const { vectorStore, uploadedFileIds } = await createStore();
+    const { uploadedFileIds: secondIds } = await upload(vectorStore.id, "second");
+    const files = () => Array.from(server.mock.state.vectorStoreFiles.get(vectorStore.id)!.keys());
+
+    const kept = await deleteJSON(`${server.url}/vector-stores/${vectorStore.id}/files/${uploadedFileIds[0]}`);
+    assert.equal(kept.status, 200);
+    assert.equal(kept.body.fileDeleted, false);
+    assert.ok(server.mock.state.files.has(uploadedFileIds[0]));
+
+    const removed = await deleteJSON(`${server.url}/vector-stores/${vectorStore.id}/files/${secondIds[0]}?deleteFile=true`);
+    assert.equal(removed.status, 200);
+    assert.equal(removed.body.fileDeleted, true);
+    assert.equal(server.mock.state.files.has(secondIds[0]), false);
+    assert.deepEqual(files(), []);
+
+    // Detached content is uploaded again instead of being skipped as a duplicate
+    const again = await upload(vectorStore.id, "second");
+    assert.equal(again.uploads[0].action, "uploaded");
+  });
+
+  it("answers 404 when the file is not in the store", async () => {
+    const { vectorStore, uploadedFileIds } = await createStore();
+    const { status } = await deleteJSON(`${server.url}/vector-stores/${vectorStore.id}/files/file_missing?deleteFile=true`);
+    assert.equal(status, 404);
+    assert.equal((await deleteJSON(`${server.url}/vector-stores/vs_missing/files/${uploadedFileIds[0]}`)).status, 404);
+    assert.ok(server.mock.state.files.has(uploadedFileIds[0]));
+  });
+
+  it("encodes ids so they cannot address other OpenAI paths", async () => {
+    const { vectorStore, uploadedFileIds } = await createStore();
+    const smuggled = encodeURIComponent(`${vectorStore.id}/files/${uploadedFileIds[0]}`);
+    assert.equal((await deleteJSON(`${server.url}/vector-stores/${smuggled}`)).status, 404);
+    assert.ok(server.mock.state.vectorStoreFiles.get(vectorStore.id)!.has(uploadedFileIds[0]));
+    assert.equal(server.mock.requests.pop()!.path, `/vector_stores/${smuggled}`);
+  });
+});